@@ -1,11 +1,21 @@
 import './App.css'
 import { Viewport } from './components/Viewport'
 import { Controls } from './components/Controls'
+import { LSystemControls } from './components/LSystemControls'
+import { AttractorControls } from './components/AttractorControls'
+import { PresetControls } from './components/PresetControls'
+import { SceneControls } from './components/SceneControls'
+import { SpeciesControls } from './components/SpeciesControls'
 
 function App() {
   return (
     <div className="app-container">
       <Controls />
+      <LSystemControls />
+      <AttractorControls />
+      <SpeciesControls />
+      <SceneControls />
+      <PresetControls />
       <Viewport />
     </div>
   )
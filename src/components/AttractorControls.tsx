@@ -0,0 +1,145 @@
+import { useControls, folder, button } from 'leva';
+import { useEffect, useRef } from 'react';
+import { useTreeStore, type TreeSettings } from '../store/useTreeStore';
+import { SETTING_RANGES } from '../store/settingRanges';
+import { ATTRACTORS } from '../engine/fysikern/attractors';
+import type { SculptureRadiusMode } from '../engine/fysikern/sculpture';
+
+// Panel key of a coefficient, e.g. lorenz sigma -> lorenzSigma
+const coefficientKey = (type: string, name: string) => `${type}${name[0].toUpperCase()}${name.slice(1)}`;
+
+// Time step and starting point an attractor is drawn with by default
+const integrationDefaults = (type: string) => ({
+    attractorDt: ATTRACTORS[type].dt,
+    attractorStart: ATTRACTORS[type].start,
+});
+
+/**
+ * Settings of the abstract mode: the attractor, its coefficients and how
+ * its curve is integrated (see attractors.ts), and the tube and column it
+ * is printed as (see sculpture.ts). Every attractor has its own
+ * coefficient inputs, shown while it is chosen; choosing another attractor
+ * brings in its own time step and starting point.
+ */
+export const AttractorControls = () => {
+    const updateSettings = useTreeStore((state) => state.updateSettings);
+    const settingsRevision = useTreeStore((state) => state.settingsRevision);
+    // Attractor the time step and starting point were last filled in for (or loaded with)
+    const integrationType = useRef(useTreeStore.getState().attractorType);
+
+    const [values, set] = useControls(() => {
+        const state = useTreeStore.getState();
+        const coefficientInputs = Object.entries(ATTRACTORS).flatMap(([type, attractor]) =>
+            Object.entries(attractor.coefficients).map(([name, value]) => [coefficientKey(type, name), {
+                value: type === state.attractorType ? state.attractorCoefficients[name] ?? value : value,
+                step: 0.001,
+                label: name,
+                render: (get: (path: string) => string) => get('Abstract.attractorType') === type,
+            }] as const)
+        );
+        return {
+            Abstract: folder({
+                attractorType: {
+                    value: state.attractorType,
+                    options: Object.fromEntries(Object.entries(ATTRACTORS).map(([type, { name }]) => [name, type])),
+                    label: 'Attraktor',
+                },
+                attractorIterations: { value: state.attractorIterations, ...SETTING_RANGES.attractorIterations, step: 100, label: 'Steg' },
+                ...Object.fromEntries(coefficientInputs),
+                attractorDt: { value: state.attractorDt, ...SETTING_RANGES.attractorDt, step: 0.0005, label: 'Tidssteg (dt)' },
+                attractorStart: { value: state.attractorStart, label: 'Startpunkt' },
+                attractorTransient: {
+                    value: state.attractorTransient,
+                    ...SETTING_RANGES.attractorTransient,
+                    step: 100,
+                    label: 'Insvängning',
+                    hint: '(steg som räknas innan kurvan börjar)',
+                },
+                sculptureRadius: { value: state.sculptureRadius, ...SETTING_RANGES.sculptureRadius, step: 0.01, label: 'Tjocklek (m)' },
+                sculptureRadiusMode: {
+                    value: state.sculptureRadiusMode,
+                    options: { 'Jämn': 'constant', 'Efter fart': 'speed', 'Efter krökning': 'curvature' } as Record<string, SculptureRadiusMode>,
+                    label: 'Tjocklek följer',
+                    hint: '(långsamt eller snävt blir tjockare)',
+                },
+                sculptureRadiusVariation: {
+                    value: state.sculptureRadiusVariation,
+                    ...SETTING_RANGES.sculptureRadiusVariation,
+                    step: 0.05,
+                    label: 'Variation',
+                    render: (get) => get('Abstract.sculptureRadiusMode') !== 'constant',
+                },
+                sculptureSmoothing: { value: state.sculptureSmoothing, ...SETTING_RANGES.sculptureSmoothing, step: 1, label: 'Utjämning' },
+                sculptureStandHeight: {
+                    value: state.sculptureStandHeight,
+                    ...SETTING_RANGES.sculptureStandHeight,
+                    step: 0.5,
+                    label: 'Pelare (m)',
+                    hint: '(från foten till kurvans lägsta punkt, 0 = ingen)',
+                },
+                'Standardvärden ↺': button((get) => {
+                    const type = get('Abstract.attractorType');
+                    set({
+                        ...Object.fromEntries(
+                            Object.entries(ATTRACTORS[type].coefficients).map(([name, value]) => [coefficientKey(type, name), value])
+                        ),
+                        ...integrationDefaults(type),
+                    });
+                }),
+            }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'abstract' }),
+        };
+    });
+
+    // Choosing an attractor brings in its time step and starting point
+    const type = values.attractorType as string;
+    useEffect(() => {
+        if (integrationType.current === type) return;
+        integrationType.current = type;
+        set(integrationDefaults(type));
+    }, [type, set]);
+
+    // Show settings loaded from a preset or link
+    useEffect(() => {
+        if (settingsRevision === 0) return;
+        const state = useTreeStore.getState();
+        if (!ATTRACTORS[state.attractorType]) return;
+        integrationType.current = state.attractorType;
+        set({
+            attractorType: state.attractorType,
+            attractorIterations: state.attractorIterations,
+            attractorDt: state.attractorDt,
+            attractorStart: state.attractorStart,
+            attractorTransient: state.attractorTransient,
+            sculptureRadius: state.sculptureRadius,
+            sculptureRadiusMode: state.sculptureRadiusMode,
+            sculptureRadiusVariation: state.sculptureRadiusVariation,
+            sculptureSmoothing: state.sculptureSmoothing,
+            sculptureStandHeight: state.sculptureStandHeight,
+            ...Object.fromEntries(Object.keys(ATTRACTORS[state.attractorType].coefficients)
+                .filter((name) => state.attractorCoefficients[name] !== undefined)
+                .map((name) => [coefficientKey(state.attractorType, name), state.attractorCoefficients[name]])),
+        });
+    }, [settingsRevision, set]);
+
+    useEffect(() => {
+        const panel = values as Record<string, unknown>;
+        const attractorCoefficients = Object.fromEntries(
+            Object.keys(ATTRACTORS[type].coefficients).map((name) => [name, panel[coefficientKey(type, name)] as number])
+        );
+        updateSettings({
+            attractorType: type,
+            attractorIterations: values.attractorIterations,
+            attractorCoefficients,
+            attractorDt: values.attractorDt,
+            attractorStart: values.attractorStart,
+            attractorTransient: values.attractorTransient,
+            sculptureRadius: values.sculptureRadius,
+            sculptureRadiusMode: values.sculptureRadiusMode,
+            sculptureRadiusVariation: values.sculptureRadiusVariation,
+            sculptureSmoothing: values.sculptureSmoothing,
+            sculptureStandHeight: values.sculptureStandHeight,
+        } as Partial<TreeSettings>);
+    }, [values, type, updateSettings]);
+
+    return null;
+};
@@ -1,72 +1,120 @@
 import { useControls, folder, button } from 'leva';
-import { useTreeStore, type TreeSettings, type TreeSpecies, type TreeAge } from '../store/useTreeStore';
-import { useEffect } from 'react';
+import { useTreeStore, DEFAULT_SETTINGS, type TreeSettings, type TreeSpecies, type TreeType } from '../store/useTreeStore';
+import { getSpeciesPreset, speciesOptions } from '../engine/botanisten/speciesRegistry';
+import { listEngines } from '../engine/botanisten/engines';
+import { SETTING_RANGES } from '../store/settingRanges';
+import { GROWN_AGE } from '../engine/botanisten/growth';
+import { EXPORT_FORMATS, type ExportFormat } from '../engine/exporters';
+import { minPrintedDiameter } from '../engine/printability';
+import { useEffect, useRef, useState } from 'react';
 
 export const Controls = () => {
     const updateSettings = useTreeStore((state) => state.updateSettings);
+    const seed = useTreeStore((state) => state.seed);
+    const treeAgeYears = useTreeStore((state) => state.treeAgeYears);
+    const settingsRevision = useTreeStore((state) => state.settingsRevision);
+    const speciesRevision = useTreeStore((state) => state.speciesRevision);
+    // Species the foliage type was last matched to (or loaded with)
+    const foliageSpecies = useRef<string | null>(null);
 
     const [values, set] = useControls(() => ({
         'Generate Tree 🌳': button(() => {
             window.dispatchEvent(new CustomEvent('GENERATE_TREE'));
         }),
-        'Export STL 📥': button(() => {
-            window.dispatchEvent(new CustomEvent('EXPORT_STL'));
+        seed: { value: 42, ...SETTING_RANGES.seed, step: 1, label: 'Frö' },
+        'Slumpa frö 🎲': button(() => {
+            useTreeStore.getState().randomizeSeed();
         }),
+        'Exportera 📥': button(() => {
+            window.dispatchEvent(new CustomEvent('EXPORT_MODEL'));
+        }),
+        exportFormat: {
+            value: 'stl' as ExportFormat,
+            options: Object.fromEntries(
+                Object.entries(EXPORT_FORMATS).map(([format, { label }]) => [label, format])
+            ),
+            label: 'Format',
+        },
         Mode: folder({
             generationMode: { value: 'realistic', options: ['realistic', 'abstract'] },
+            generatorEngine: {
+                value: 'realistic',
+                options: Object.fromEntries(listEngines().map((engine) => [engine.label, engine.id])),
+                label: 'Motor',
+                render: (get) => get('Mode.generationMode') === 'realistic'
+            },
         }),
         // NEW: Tree species and age controls
         'Trädart': folder({
             treeSpecies: {
                 value: 'linden' as TreeSpecies,
-                options: {
-                    'Lind (Tilia cordata)': 'linden',
-                    'Ek (Quercus robur)': 'oak',
-                    'Björk (Betula)': 'birch',
-                    'Gran (Picea abies)': 'spruce',
-                    'Tall (Pinus sylvestris)': 'pine',
-                },
+                options: speciesOptions(),
                 label: 'Art',
-                render: (get) => get('Mode.generationMode') === 'realistic'
+                render: (get) => get('Mode.generationMode') === 'realistic' && ['realistic', 'colonization'].includes(get('Mode.generatorEngine'))
+            },
+            treeAgeYears: {
+                value: GROWN_AGE,
+                ...SETTING_RANGES.treeAgeYears,
+                step: 1,
+                label: 'Ålder (år)',
+                hint: `(fullvuxet vid ${GROWN_AGE} år)`,
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic'
+            },
+            plantingAge: {
+                value: 8,
+                ...SETTING_RANGES.plantingAge,
+                step: 1,
+                label: 'Ålder vid plantering',
+                hint: '(år, tidslinjens början)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic'
             },
-            treeAge: {
-                value: 'mature' as TreeAge,
+            growthHabit: {
+                value: 'species' as TreeSettings['growthHabit'],
                 options: {
-                    'Ung (10-20 år)': 'young',
-                    'Mogen (30-60 år)': 'mature',
-                    'Gammal (100+ år)': 'old',
+                    'Artens eget': 'species',
+                    'Normalt': 'standard',
+                    'Flerstammigt': 'multiStem',
+                    'Hängande': 'weeping',
+                    'Pelarformat': 'columnar',
+                    'Hamlat': 'pollarded',
+                    'Spaljerat': 'pleached',
                 },
-                label: 'Ålder',
-                render: (get) => get('Mode.generationMode') === 'realistic'
+                label: 'Växtsätt',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic'
+            },
+            stemCount: {
+                value: 3,
+                ...SETTING_RANGES.stemCount,
+                step: 1,
+                label: 'Antal stammar',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic' &&
+                    (get('Trädart.growthHabit') === 'species'
+                        ? getSpeciesPreset(get('Trädart.treeSpecies')).habit
+                        : get('Trädart.growthHabit')) === 'multiStem'
             },
             treeHeight: {
                 value: 15,
-                min: 5,
-                max: 30,
+                ...SETTING_RANGES.treeHeight,
                 step: 1,
                 label: 'Trädhöjd (m)',
-                render: (get) => get('Mode.generationMode') === 'realistic'
             },
             crownWidth: {
                 value: 1.0,
-                min: 0.5,
-                max: 2.0,
+                ...SETTING_RANGES.crownWidth,
                 step: 0.1,
                 label: 'Kronbredd',
                 render: (get) => get('Mode.generationMode') === 'realistic'
             },
             trunkHeight: {
                 value: 3,
-                min: 1,
-                max: 10,
+                ...SETTING_RANGES.trunkHeight,
                 step: 0.5,
                 label: 'Grenstart (m)',
                 render: (get) => get('Mode.generationMode') === 'realistic'
             },
             crownDensity: {
                 value: 5,
-                min: 1,
-                max: 10,
+                ...SETTING_RANGES.crownDensity,
                 step: 1,
                 label: 'Kronfyllnad',
                 hint: '(antal grenar)',
@@ -74,33 +122,167 @@ export const Controls = () => {
             },
             trunkThickness: {
                 value: 1.0,
-                min: 0.5,
-                max: 2.0,
+                ...SETTING_RANGES.trunkThickness,
                 step: 0.1,
                 label: 'Tjocklek',
                 hint: '(stam & grenar)',
                 render: (get) => get('Mode.generationMode') === 'realistic'
             },
         }, { collapsed: false }),
+        // Foliage - toggle between bare "winter" and leafy "summer" versions
+        'Lövverk': folder({
+            showFoliage: {
+                value: true,
+                label: 'Visa lövverk',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic'
+            },
+            treeType: {
+                value: 'deciduous' as TreeType,
+                options: {
+                    'Lövträd': 'deciduous',
+                    'Barrträd': 'conifer',
+                    'Buske': 'shrub',
+                    'Cypress': 'cypress',
+                    'Palm': 'palm',
+                },
+                label: 'Lövtyp',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic' && get('Lövverk.showFoliage')
+            },
+            foliageDensity: {
+                value: 0.7,
+                ...SETTING_RANGES.foliageDensity,
+                step: 0.05,
+                label: 'Täthet',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic' && get('Lövverk.showFoliage')
+            },
+            foliageSize: {
+                value: 1.0,
+                ...SETTING_RANGES.foliageSize,
+                step: 0.1,
+                label: 'Klungstorlek',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic' && get('Lövverk.showFoliage')
+            },
+        }, { collapsed: true }),
+        // Prevailing wind shaping the crown (coastal sites)
+        'Vind': folder({
+            windStrength: {
+                value: 0,
+                ...SETTING_RANGES.windStrength,
+                step: 0.05,
+                label: 'Vindstyrka',
+            },
+            windDirection: {
+                value: 225,
+                ...SETTING_RANGES.windDirection,
+                step: 5,
+                label: 'Vind från (°)',
+                hint: '(0° = norr, 90° = öster)',
+                render: (get) => get('Vind.windStrength') > 0
+            },
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'realistic' }),
         // Branching detail controls
         'Grenstruktur': folder({
-            recursionDepth: {
-                value: 7,
-                min: 3,
-                max: 10,
-                step: 1,
-                label: 'Grennivåer',
-                render: (get) => get('Mode.generationMode') === 'realistic'
+            thicknessDecay: {
+                value: 2.2,
+                ...SETTING_RANGES.thicknessDecay,
+                step: 0.1,
+                label: 'Da Vinci-exponent',
+                render: (get) => get('Mode.generationMode') === 'realistic' && (
+                    ['lsystem', 'recursive', 'colonization'].includes(get('Mode.generatorEngine')) || get('Grenstruktur.pipeModel')
+                )
+            },
+            pipeModel: {
+                value: false,
+                label: 'Rörmodell (Leonardo)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && ['realistic', 'organic', 'connected', 'recursive'].includes(get('Mode.generatorEngine'))
             },
             minPrintableRadius: {
                 value: 0.05,
-                min: 0.01,
-                max: 0.3,
+                ...SETTING_RANGES.minPrintableRadius,
                 step: 0.01,
                 label: 'Min grenradie',
                 render: (get) => get('Mode.generationMode') === 'realistic'
             },
         }, { collapsed: true }),
+        // Engine-specific parameters
+        'Kolonisering': folder({
+            colonizationInfluence: {
+                value: 3.0,
+                ...SETTING_RANGES.colonizationInfluence,
+                step: 0.1,
+                label: 'Påverkansradie (m)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'colonization'
+            },
+            colonizationKillDistance: {
+                value: 0.8,
+                ...SETTING_RANGES.colonizationKillDistance,
+                step: 0.05,
+                label: 'Nåddistans (m)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'colonization'
+            },
+            colonizationStep: {
+                value: 0.35,
+                ...SETTING_RANGES.colonizationStep,
+                step: 0.05,
+                label: 'Steglängd (m)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'colonization'
+            },
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'colonization' }),
+        'Organisk': folder({
+            organicBranchThickness: {
+                value: 0.12,
+                ...SETTING_RANGES.organicBranchThickness,
+                step: 0.01,
+                label: 'Grenradie (m)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'organic'
+            },
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'organic' }),
+        'Sammanhängande': folder({
+            connectedBranchThickness: {
+                value: 0.12,
+                ...SETTING_RANGES.connectedBranchThickness,
+                step: 0.01,
+                label: 'Grenradie (m)',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'connected'
+            },
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'connected' }),
+        'Botanist': folder({
+            branchingFactor: {
+                value: 3,
+                ...SETTING_RANGES.branchingFactor,
+                step: 1,
+                label: 'Förgreningar',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'recursive'
+            },
+            recursionDepth: {
+                value: 7,
+                ...SETTING_RANGES.recursionDepth,
+                step: 1,
+                label: 'Grennivåer',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'recursive'
+            },
+            gravitropism: {
+                value: 0.1,
+                ...SETTING_RANGES.gravitropism,
+                step: 0.05,
+                label: 'Gravitropism',
+                render: (get) => get('Mode.generationMode') === 'realistic' && ['lsystem', 'recursive'].includes(get('Mode.generatorEngine'))
+            },
+            lengthDecay: {
+                value: 0.75,
+                ...SETTING_RANGES.lengthDecay,
+                step: 0.01,
+                label: 'Längdavtagande',
+                render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'recursive'
+            },
+            initialRadius: {
+                value: 3.0,
+                ...SETTING_RANGES.initialRadius,
+                step: 0.1,
+                label: 'Startradie',
+                render: (get) => get('Mode.generationMode') === 'realistic' && ['lsystem', 'recursive'].includes(get('Mode.generatorEngine'))
+            },
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' && ['lsystem', 'recursive'].includes(get('Mode.generatorEngine')) }),
         // Physical/print settings
         'Utskrift': folder({
             modelScale: {
@@ -122,18 +304,84 @@ export const Controls = () => {
             },
             minThickness: {
                 label: 'Min tjocklek',
-                value: '0.40 mm',
+                value: '0.80 mm',
                 editable: false,
             },
-            nozzleDiameter: { value: 0.4, min: 0.1, max: 1.0, step: 0.1, label: 'Munstycke (mm)' },
-            targetScale: { value: 1.0, min: 0.1, max: 10.0, step: 0.1, label: 'Exportskala' },
+            nozzleDiameter: { value: 0.4, ...SETTING_RANGES.nozzleDiameter, step: 0.1, label: 'Munstycke (mm)' },
+            minWallCount: { value: 1, ...SETTING_RANGES.minWallCount, step: 1, label: 'Min väggar' },
+            layerHeight: { value: 0.2, ...SETTING_RANGES.layerHeight, step: 0.01, label: 'Lagerhöjd (mm)' },
+            thinBranchHandling: {
+                value: 'thicken',
+                options: { 'Förtjocka': 'thicken', 'Ta bort': 'prune' },
+                label: 'Tunna grenar',
+            },
+            targetScale: { value: 1.0, ...SETTING_RANGES.targetScale, step: 0.1, label: 'Exportskala' },
+            overhangAngle: { value: 45, ...SETTING_RANGES.overhangAngle, step: 1, label: 'Max överhäng (°)' },
+            showPrintIssues: { value: true, label: 'Visa problem' },
+            meshingMode: {
+                value: 'cylinders',
+                options: { 'Cylindrar (snabb)': 'cylinders', 'Mjuka förgreningar': 'smooth' },
+                label: 'Grenmodell',
+            },
+            filletScale: {
+                value: 1.0, ...SETTING_RANGES.filletScale, step: 0.1, label: 'Avrundning',
+                hint: '(× tunnaste grenen)',
+                render: (get) => get('Utskrift.meshingMode') === 'smooth'
+            },
         }, { collapsed: false }),
-        // Abstract mode settings
-        Abstract: folder({
-            attractorType: { value: 'thomas', options: ['thomas', 'aizawa'], render: (get) => get('Mode.generationMode') === 'abstract' },
-            attractorIterations: { value: 1000, min: 100, max: 10000, step: 100, render: (get) => get('Mode.generationMode') === 'abstract' },
+        // Base for mounting the model, in printed millimetres
+        'Fot': folder({
+            baseType: {
+                value: 'none',
+                options: {
+                    'Ingen': 'none',
+                    'Rund platta': 'disc',
+                    'Fyrkantig sockel': 'square',
+                    'Tapp': 'pin',
+                },
+                label: 'Typ',
+            },
+            baseDiameter: {
+                value: 20, ...SETTING_RANGES.baseDiameter, step: 1, label: 'Diameter/sida (mm)',
+                render: (get) => ['disc', 'square'].includes(get('Fot.baseType'))
+            },
+            baseHeight: {
+                value: 2, ...SETTING_RANGES.baseHeight, step: 0.2, label: 'Tjocklek (mm)',
+                render: (get) => ['disc', 'square'].includes(get('Fot.baseType'))
+            },
+            basePinDiameter: {
+                value: 2, ...SETTING_RANGES.basePinDiameter, step: 0.1, label: 'Tappdiameter (mm)',
+                render: (get) => get('Fot.baseType') === 'pin'
+            },
+            basePinLength: {
+                value: 5, ...SETTING_RANGES.basePinLength, step: 0.5, label: 'Tapplängd (mm)',
+                render: (get) => get('Fot.baseType') === 'pin'
+            },
         }, { collapsed: true }),
-    }));
+        // Many seeded variants of the current species in one ZIP
+        'Serieexport': folder({
+            batchCount: { value: 30, ...SETTING_RANGES.batchCount, step: 1, label: 'Antal träd' },
+            batchSeedStart: { value: 1, ...SETTING_RANGES.batchSeedStart, step: 1, label: 'Första frö' },
+            batchHeightSpread: { value: 0.15, ...SETTING_RANGES.batchHeightSpread, step: 0.01, label: 'Höjdvariation (±)' },
+            batchHeightDistribution: {
+                value: 'normal',
+                options: { 'Normalfördelad': 'normal', 'Jämn': 'uniform' },
+                label: 'Höjdfördelning',
+            },
+            batchCrownJitter: { value: 0.1, ...SETTING_RANGES.batchCrownJitter, step: 0.01, label: 'Kronvariation (±)' },
+            batchPackaging: {
+                value: 'files',
+                options: { 'En fil per träd': 'files', 'En 3MF med alla': '3mf' },
+                label: 'Paketering',
+            },
+            'Exportera serie 📦': button(() => {
+                window.dispatchEvent(new CustomEvent('EXPORT_BATCH'));
+            }),
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' }),
+    }), [speciesRevision]);
+
+    // Settings that have an input in this panel
+    const [panelKeys] = useState(() => Object.keys(values).filter((key) => key in DEFAULT_SETTINGS));
 
     useEffect(() => {
         updateSettings(values as Partial<TreeSettings>);
@@ -141,16 +389,47 @@ export const Controls = () => {
         // Update read-only displays
         const printH = ((values.treeHeight * 1000) / values.modelScale).toFixed(1);
 
-        // Calculate effective min thickness (2mm floor for printability)
-        const minPrintDiameter = 2; // 2mm minimum for 3D printing
-        const userMinDiameter = (values.minPrintableRadius * 2 * 1000) / values.modelScale;
-        const effectiveMinDiameter = Math.max(userMinDiameter, minPrintDiameter);
+        // Thinnest printable branch according to the printability policy
+        const minDiameter = minPrintedDiameter({
+            nozzleDiameter: values.nozzleDiameter,
+            minWalls: values.minWallCount,
+            layerHeight: values.layerHeight,
+        });
 
         set({
             printHeight: `${printH} mm`,
-            minThickness: `${effectiveMinDiameter.toFixed(1)} mm`
+            minThickness: `${minDiameter.toFixed(2)} mm`
         });
     }, [values, updateSettings, set]);
 
+    // Seeds set outside the panel (randomize button) are shown in the input
+    useEffect(() => {
+        set({ seed });
+    }, [seed, set]);
+
+    // Ages set by the growth timeline in the viewport
+    useEffect(() => {
+        set({ treeAgeYears });
+    }, [treeAgeYears, set]);
+
+    // Show settings loaded from a preset or link in the panel
+    useEffect(() => {
+        if (settingsRevision === 0) return;
+        const state = useTreeStore.getState();
+        const loaded = Object.fromEntries(
+            panelKeys.map((key) => [key, state[key as keyof TreeSettings]])
+        );
+        // Keep the preset's own foliage type
+        foliageSpecies.current = state.treeSpecies;
+        set(loaded);
+    }, [settingsRevision, panelKeys, set]);
+
+    // Follow the species' natural foliage style when the species changes
+    useEffect(() => {
+        if (foliageSpecies.current === values.treeSpecies) return;
+        foliageSpecies.current = values.treeSpecies;
+        set({ treeType: getSpeciesPreset(values.treeSpecies).foliageType });
+    }, [values.treeSpecies, set]);
+
     return null;
 };
@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState, type CSSProperties, type MouseEvent } from 'react';
+import { useTreeStore } from '../store/useTreeStore';
+import { getSpeciesPreset } from '../engine/botanisten/speciesRegistry';
+import { crownProfileOf } from '../engine/botanisten/realisticTree';
+import {
+    AZIMUTH_RANGE, AZIMUTH_SECTORS, MAX_PROFILE_POINTS, MAX_PROFILE_RADIUS, profileRadius, type CrownProfile,
+} from '../engine/botanisten/crownProfile';
+import { overlayButtonStyle, overlayPanelStyle } from './overlayStyles';
+
+const panelStyle: CSSProperties = {
+    ...overlayPanelStyle,
+    left: 16,
+    top: 16,
+    width: 280,
+};
+
+const buttonStyle: CSSProperties = { ...overlayButtonStyle, marginTop: 4 };
+
+// Drawing area (SVG units); the crown is drawn on both sides of the trunk
+const WIDTH = 252;
+const HEIGHT = 220;
+const MARGIN = 10;
+const SHOWN_RADIUS = 1.5;
+const CENTER_X = WIDTH / 2;
+const SCALE_X = (WIDTH / 2 - MARGIN) / SHOWN_RADIUS;
+const SCALE_Y = HEIGHT - 2 * MARGIN;
+
+// Points closer in height than this would make the curve fold
+const MIN_GAP = 0.02;
+
+const SECTOR_LABELS = ['N', 'NO', 'O', 'SO', 'S', 'SV', 'V', 'NV'];
+
+const toSvg = ([height, radius]: [number, number]) => [CENTER_X + radius * SCALE_X, HEIGHT - MARGIN - height * SCALE_Y];
+
+const outline = (profile: CrownProfile) => {
+    const heights = Array.from({ length: 49 }, (_, i) => i / 48);
+    const right = heights.map((height) => toSvg([height, profileRadius(profile, height)]));
+    const left = right.map(([x, y]) => [2 * CENTER_X - x, y]).reverse();
+    return [...right, ...left].map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+};
+
+/**
+ * Editor for the crown silhouette of the current tree (see crownProfile.ts),
+ * over a reference photo if one is loaded. Drag the points, double-click to
+ * add one, right-click a point to remove it. The tree is regrown when a
+ * point or slider is let go; "Spara som egen art" in the species panel
+ * stores the profile with the species.
+ */
+export const CrownProfileEditor = () => {
+    const open = useTreeStore((state) => state.crownProfileEditor && state.generationMode === 'realistic');
+    const treeSpecies = useTreeStore((state) => state.treeSpecies);
+    const stored = useTreeStore((state) => state.crownProfile);
+    const updateSettings = useTreeStore((state) => state.updateSettings);
+    const [draft, setDraft] = useState<CrownProfile | null>(null);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [photo, setPhoto] = useState<string | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    // Free the reference photo when it is replaced or the editor goes away
+    useEffect(() => () => {
+        if (photo) URL.revokeObjectURL(photo);
+    }, [photo]);
+
+    if (!open) return null;
+
+    const profile = draft ?? stored ?? crownProfileOf(getSpeciesPreset(treeSpecies));
+
+    const commit = (next: CrownProfile) => {
+        setDraft(null);
+        updateSettings({ crownProfile: next });
+    };
+
+    // Profile height and radius under the pointer
+    const pointerPoint = (e: MouseEvent<SVGSVGElement>): [number, number] => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        const x = (e.clientX - rect.left) * WIDTH / rect.width;
+        const y = (e.clientY - rect.top) * HEIGHT / rect.height;
+        const height = Math.max(0, Math.min(1, (HEIGHT - MARGIN - y) / SCALE_Y));
+        const radius = Math.max(0, Math.min(MAX_PROFILE_RADIUS, Math.abs(x - CENTER_X) / SCALE_X));
+        return [height, radius];
+    };
+
+    const movePoint = (e: MouseEvent<SVGSVGElement>) => {
+        if (dragIndex === null) return;
+        const [height, radius] = pointerPoint(e);
+        const points = profile.points.map((point) => [...point] as [number, number]);
+        const below = dragIndex > 0 ? points[dragIndex - 1][0] + MIN_GAP : 0;
+        const above = dragIndex < points.length - 1 ? points[dragIndex + 1][0] - MIN_GAP : 1;
+        points[dragIndex] = [Math.max(below, Math.min(above, height)), radius];
+        setDraft({ ...profile, points });
+    };
+
+    const addPoint = (e: MouseEvent<SVGSVGElement>) => {
+        if (profile.points.length >= MAX_PROFILE_POINTS) return;
+        const [height, radius] = pointerPoint(e);
+        if (profile.points.some(([other]) => Math.abs(other - height) < MIN_GAP)) return;
+        const points = [...profile.points, [height, radius] as [number, number]].sort((a, b) => a[0] - b[0]);
+        commit({ ...profile, points });
+    };
+
+    const removePoint = (index: number) => {
+        if (profile.points.length <= 2) return;
+        commit({ ...profile, points: profile.points.filter((_, i) => i !== index) });
+    };
+
+    const setSector = (sector: number, factor: number) => {
+        const azimuth = [...(profile.azimuth ?? new Array<number>(AZIMUTH_SECTORS).fill(1))];
+        azimuth[sector] = factor;
+        setDraft({ ...profile, azimuth });
+    };
+
+    const loadPhoto = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'image/*';
+        input.onchange = () => {
+            const file = input.files?.[0];
+            if (file) setPhoto(URL.createObjectURL(file));
+        };
+        input.click();
+    };
+
+    return (
+        <div style={panelStyle}>
+            <div style={{ fontWeight: 'bold', marginBottom: 4 }}>
+                Kronprofil {stored ? '(egen)' : `(${getSpeciesPreset(treeSpecies).name.split(' ')[0]})`}
+            </div>
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                style={{ width: '100%', background: '#1a1e22', touchAction: 'none', cursor: dragIndex === null ? 'crosshair' : 'grabbing' }}
+                onPointerMove={movePoint}
+                onPointerUp={() => {
+                    if (dragIndex !== null && draft) commit(draft);
+                    setDragIndex(null);
+                }}
+                onDoubleClick={addPoint}
+            >
+                {photo && (
+                    <image href={photo} x={0} y={0} width={WIDTH} height={HEIGHT} opacity={0.45} preserveAspectRatio="xMidYMid meet" />
+                )}
+                <line x1={CENTER_X} y1={MARGIN} x2={CENTER_X} y2={HEIGHT - MARGIN} stroke="#555" strokeDasharray="3 3" />
+                <line x1={MARGIN} y1={HEIGHT - MARGIN} x2={WIDTH - MARGIN} y2={HEIGHT - MARGIN} stroke="#555" />
+                <polygon points={outline(profile)} fill="rgba(140, 190, 120, 0.35)" stroke="#8cbe78" />
+                {profile.points.map((point, index) => {
+                    const [x, y] = toSvg(point);
+                    return (
+                        <circle
+                            key={index}
+                            cx={x}
+                            cy={y}
+                            r={5}
+                            fill={index === dragIndex ? '#ffd866' : '#e8e8e8'}
+                            style={{ cursor: 'grab' }}
+                            onPointerDown={(e) => {
+                                e.stopPropagation();
+                                svgRef.current?.setPointerCapture(e.pointerId);
+                                setDragIndex(index);
+                            }}
+                            onDoubleClick={(e) => e.stopPropagation()}
+                            onContextMenu={(e) => {
+                                e.preventDefault();
+                                removePoint(index);
+                            }}
+                        />
+                    );
+                })}
+            </svg>
+            <label style={{ display: 'block', marginTop: 4 }}>
+                <input
+                    type="checkbox"
+                    checked={profile.azimuth !== undefined}
+                    onChange={(e) => commit({
+                        points: profile.points,
+                        azimuth: e.target.checked ? new Array<number>(AZIMUTH_SECTORS).fill(1) : undefined,
+                    })}
+                />
+                {' '}Olika bred åt olika håll
+            </label>
+            {profile.azimuth?.map((factor, sector) => (
+                <div key={sector} style={{ display: 'flex', alignItems: 'center' }}>
+                    <span style={{ width: 28 }}>{SECTOR_LABELS[sector]}</span>
+                    <input
+                        type="range"
+                        min={AZIMUTH_RANGE[0]}
+                        max={AZIMUTH_RANGE[1]}
+                        step={0.05}
+                        value={factor}
+                        style={{ flex: 1 }}
+                        onChange={(e) => setSector(sector, Number(e.target.value))}
+                        onPointerUp={() => draft && commit(draft)}
+                        onKeyUp={() => draft && commit(draft)}
+                    />
+                    <span style={{ width: 36, textAlign: 'right' }}>{factor.toFixed(2)}</span>
+                </div>
+            ))}
+            <div>
+                <button style={buttonStyle} onClick={loadPhoto}>Referensbild…</button>
+                <button style={buttonStyle} onClick={() => updateSettings({ crownProfile: null })}>Artens profil</button>
+                <button style={buttonStyle} onClick={() => useTreeStore.getState().setCrownProfileEditor(false)}>Stäng</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import { useTreeStore } from '../store/useTreeStore';
+import { MAX_AGE } from '../engine/botanisten/growth';
+import { overlayButtonStyle, overlayPanelStyle } from './overlayStyles';
+
+const panelStyle: CSSProperties = {
+    ...overlayPanelStyle,
+    left: '50%',
+    bottom: 16,
+    transform: 'translateX(-50%)',
+    width: 380,
+};
+
+// Years after planting that plans usually show
+const MILESTONES = [0, 10, 40];
+
+// Pause on each year before growing the next one
+const PLAY_PAUSE_MS = 250;
+
+/**
+ * Timeline over the viewport: the years after planting, for the single
+ * tree or every tree of the scene. Every year is the same trees a little
+ * further grown (see growth.ts). Playing moves on to the next year once
+ * the viewport has built the current one.
+ */
+export const GrowthTimeline = () => {
+    const visible = useTreeStore((state) => state.generationMode === 'realistic' && state.generatorEngine === 'realistic');
+    const treeAgeYears = useTreeStore((state) => state.treeAgeYears);
+    const plantingAge = useTreeStore((state) => state.plantingAge);
+    const solidRevision = useTreeStore((state) => state.solidRevision);
+    const updateSettings = useTreeStore((state) => state.updateSettings);
+    const [playing, setPlaying] = useState(false);
+    // Year under the slider while it is dragged; the tree is grown when it is let go
+    const [scrubYear, setScrubYear] = useState<number | null>(null);
+
+    const lastYear = MAX_AGE - plantingAge;
+    const year = scrubYear ?? Math.max(0, treeAgeYears - plantingAge);
+    const showYear = (shown: number) => updateSettings({ treeAgeYears: Math.max(1, plantingAge + shown) });
+
+    useEffect(() => {
+        if (!playing) return;
+        const timer = setTimeout(() => {
+            const { treeAgeYears } = useTreeStore.getState();
+            if (treeAgeYears >= MAX_AGE) setPlaying(false);
+            else updateSettings({ treeAgeYears: treeAgeYears + 1 });
+        }, PLAY_PAUSE_MS);
+        return () => clearTimeout(timer);
+    }, [playing, solidRevision, updateSettings]);
+
+    if (!visible) return null;
+
+    const commitScrub = () => {
+        if (scrubYear === null) return;
+        showYear(scrubYear);
+        setScrubYear(null);
+    };
+
+    return (
+        <div style={panelStyle}>
+            <div style={{ fontWeight: 'bold', marginBottom: 4 }}>
+                Tidslinje: {year === 0 ? 'plantering' : `${year} år efter plantering`} ({plantingAge + year} år gammalt)
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={lastYear}
+                step={1}
+                value={year}
+                style={{ width: '100%' }}
+                onChange={(e) => {
+                    setPlaying(false);
+                    setScrubYear(Number(e.target.value));
+                }}
+                onPointerUp={commitScrub}
+                onKeyUp={commitScrub}
+            />
+            <div>
+                <button
+                    style={overlayButtonStyle}
+                    onClick={() => {
+                        if (!playing && year >= lastYear) showYear(0);
+                        setPlaying(!playing);
+                    }}
+                >
+                    {playing ? '⏸ Paus' : '▶ Spela'}
+                </button>
+                {MILESTONES.map((milestone) => (
+                    <button
+                        key={milestone}
+                        style={overlayButtonStyle}
+                        onClick={() => {
+                            setPlaying(false);
+                            showYear(milestone);
+                        }}
+                    >
+                        {milestone === 0 ? 'Plantering' : `${milestone} år`}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+import { useControls, folder, button } from 'leva';
+import { useEffect, useState } from 'react';
+import { useTreeStore, type TreeSettings } from '../store/useTreeStore';
+import { SETTING_RANGES } from '../store/settingRanges';
+import { getAllGrammars, saveCustomGrammar } from '../engine/botanisten/lsystemPresets';
+
+/**
+ * Grammar editor for the L-system engine. Lives in its own Leva folder so
+ * the preset list can be rebuilt when the user saves a new grammar.
+ */
+export const LSystemControls = () => {
+    const updateSettings = useTreeStore((state) => state.updateSettings);
+    const settingsRevision = useTreeStore((state) => state.settingsRevision);
+    const [grammars, setGrammars] = useState(getAllGrammars);
+
+    const [values, set] = useControls(() => ({
+        'L-system': folder({
+            lsystemPreset: {
+                value: 'abop-2.6',
+                options: Object.fromEntries(Object.entries(grammars).map(([id, grammar]) => [grammar.name, id])),
+                label: 'Förinställning',
+            },
+            lsystemAxiom: { value: useTreeStore.getState().lsystemAxiom, label: 'Axiom' },
+            lsystemRules: { value: useTreeStore.getState().lsystemRules, rows: 5, label: 'Regler' },
+            lsystemIterations: { value: useTreeStore.getState().lsystemIterations, ...SETTING_RANGES.lsystemIterations, step: 1, label: 'Iterationer' },
+            lsystemAngle: { value: useTreeStore.getState().lsystemAngle, ...SETTING_RANGES.lsystemAngle, step: 0.5, label: 'Vinkel (°)' },
+            'Spara grammatik 💾': button((get) => {
+                const name = window.prompt('Namn på grammatiken:');
+                if (!name) return;
+                const id = saveCustomGrammar({
+                    name,
+                    axiom: get('L-system.lsystemAxiom'),
+                    rules: get('L-system.lsystemRules'),
+                    iterations: get('L-system.lsystemIterations'),
+                    angle: get('L-system.lsystemAngle'),
+                });
+                console.log('[LSystemControls] Saved grammar', id);
+                setGrammars(getAllGrammars());
+            }),
+        }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' && get('Mode.generatorEngine') === 'lsystem' }),
+    }), [grammars]);
+
+    // Choosing a preset fills in the editable fields
+    useEffect(() => {
+        const grammar = getAllGrammars()[values.lsystemPreset];
+        if (!grammar) return;
+        set({
+            lsystemAxiom: grammar.axiom,
+            lsystemRules: grammar.rules,
+            lsystemIterations: grammar.iterations,
+            lsystemAngle: grammar.angle,
+        });
+    }, [values.lsystemPreset, set]);
+
+    // Show a grammar loaded from a preset or link
+    useEffect(() => {
+        if (settingsRevision === 0) return;
+        const { lsystemAxiom, lsystemRules, lsystemIterations, lsystemAngle } = useTreeStore.getState();
+        set({ lsystemAxiom, lsystemRules, lsystemIterations, lsystemAngle });
+    }, [settingsRevision, set]);
+
+    useEffect(() => {
+        const { lsystemAxiom, lsystemRules, lsystemIterations, lsystemAngle } = values;
+        updateSettings({ lsystemAxiom, lsystemRules, lsystemIterations, lsystemAngle } as Partial<TreeSettings>);
+    }, [values, updateSettings]);
+
+    return null;
+};
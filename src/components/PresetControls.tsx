@@ -0,0 +1,87 @@
+import { useControls, folder, button } from 'leva';
+import { useEffect, useState } from 'react';
+import { useTreeStore } from '../store/useTreeStore';
+import {
+    createPreset, deletePreset, loadPresets, parsePresetJSON, presetFromHash, presetToHash,
+    presetToJSON, savePreset, type SettingsPreset,
+} from '../store/presets';
+import { downloadFile } from './download';
+
+// Load a preset into the store; the panels pick it up through settingsRevision
+const applyPreset = (preset: SettingsPreset) => {
+    console.log('[PresetControls] Loading preset', preset.name);
+    useTreeStore.getState().applySettings(preset.settings);
+};
+
+/**
+ * Save, load and share complete settings (see presets.ts)
+ */
+export const PresetControls = () => {
+    const [presets, setPresets] = useState(loadPresets);
+    const names = Object.keys(presets);
+
+    useControls(() => ({
+        'Förinställningar': folder({
+            presetName: {
+                value: names[0] ?? '',
+                options: names.length > 0 ? names : { '(inga sparade)': '' },
+                label: 'Sparade',
+            },
+            'Ladda 📂': button((get) => {
+                const preset = loadPresets()[get('Förinställningar.presetName')];
+                if (preset) applyPreset(preset);
+            }),
+            'Spara nuvarande 💾': button(() => {
+                const name = window.prompt('Namn på förinställningen:');
+                if (!name) return;
+                savePreset(createPreset(name, useTreeStore.getState()));
+                setPresets(loadPresets());
+            }),
+            'Ta bort 🗑️': button((get) => {
+                const name = get('Förinställningar.presetName');
+                if (!name || !window.confirm(`Ta bort "${name}"?`)) return;
+                deletePreset(name);
+                setPresets(loadPresets());
+            }),
+            'Exportera JSON': button(() => {
+                const preset = createPreset('Tradet', useTreeStore.getState());
+                downloadFile(presetToJSON(preset), `tradet_seed${preset.settings.seed}.json`, 'application/json');
+            }),
+            'Importera JSON': button(() => {
+                const input = document.createElement('input');
+                input.type = 'file';
+                input.accept = 'application/json,.json';
+                input.onchange = async () => {
+                    const file = input.files?.[0];
+                    if (!file) return;
+                    try {
+                        const preset = parsePresetJSON(await file.text());
+                        preset.name = file.name.replace(/\.json$/i, '');
+                        savePreset(preset);
+                        setPresets(loadPresets());
+                        applyPreset(preset);
+                    } catch (err) {
+                        console.error('[PresetControls] Import failed:', err);
+                        window.alert('Kunde inte läsa förinställningen.');
+                    }
+                };
+                input.click();
+            }),
+            'Kopiera länk 🔗': button(() => {
+                const hash = presetToHash(createPreset('Länk', useTreeStore.getState()));
+                window.history.replaceState(null, '', hash);
+                navigator.clipboard?.writeText(window.location.href)
+                    .then(() => console.log('[PresetControls] Link copied'))
+                    .catch((err) => console.error('[PresetControls] Could not copy link:', err));
+            }),
+        }, { collapsed: true }),
+    }), [presets]);
+
+    // A shared link opens with its settings
+    useEffect(() => {
+        const preset = presetFromHash(window.location.hash);
+        if (preset) applyPreset(preset);
+    }, []);
+
+    return null;
+};
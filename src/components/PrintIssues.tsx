@@ -0,0 +1,66 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { BranchSegment } from '../engine/botanisten/branchGraph';
+import type { PrintReport } from '../engine/printAnalysis';
+
+interface PrintIssuesProps {
+    geometry: THREE.BufferGeometry;
+    branches: BranchSegment[];
+    report: PrintReport;
+}
+
+/**
+ * Viewport overlay for the printability report: overhanging faces in
+ * orange, branches below the minimum printable diameter as red lines.
+ */
+export const PrintIssues = ({ geometry, branches, report }: PrintIssuesProps) => {
+    const overhangGeometry = useMemo(() => {
+        const source = geometry.getIndex();
+        if (!source || report.overhangTriangles.length === 0) return null;
+
+        const indices = new Uint32Array(report.overhangTriangles.length * 3);
+        report.overhangTriangles.forEach((triangle, i) => {
+            indices[i * 3 + 0] = source.getX(triangle * 3 + 0);
+            indices[i * 3 + 1] = source.getX(triangle * 3 + 1);
+            indices[i * 3 + 2] = source.getX(triangle * 3 + 2);
+        });
+
+        const overlay = new THREE.BufferGeometry();
+        // Share the vertex data but not the GPU buffer, so disposing is safe
+        overlay.setAttribute('position', new THREE.BufferAttribute(geometry.getAttribute('position').array, 3));
+        overlay.setIndex(new THREE.BufferAttribute(indices, 1));
+        return overlay;
+    }, [geometry, report]);
+
+    const thinGeometry = useMemo(() => {
+        const positions: number[] = [];
+        for (const index of report.thinSegments) {
+            const branch = branches[index];
+            if (branch) positions.push(...branch.start, ...branch.end);
+        }
+        if (positions.length === 0) return null;
+
+        const lines = new THREE.BufferGeometry();
+        lines.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        return lines;
+    }, [branches, report]);
+
+    // Free GPU buffers when the overlay is replaced
+    useEffect(() => () => overhangGeometry?.dispose(), [overhangGeometry]);
+    useEffect(() => () => thinGeometry?.dispose(), [thinGeometry]);
+
+    return (
+        <>
+            {overhangGeometry && (
+                <mesh geometry={overhangGeometry}>
+                    <meshBasicMaterial color="#ff8800" side={THREE.DoubleSide} polygonOffset polygonOffsetFactor={-1} />
+                </mesh>
+            )}
+            {thinGeometry && (
+                <lineSegments geometry={thinGeometry}>
+                    <lineBasicMaterial color="#ff2222" depthTest={false} />
+                </lineSegments>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,58 @@
+import type { CSSProperties } from 'react';
+import { useTreeStore } from '../store/useTreeStore';
+import type { PrintReport } from '../engine/printAnalysis';
+import { overlayPanelStyle } from './overlayStyles';
+
+const panelStyle: CSSProperties = {
+    ...overlayPanelStyle,
+    left: 16,
+    bottom: 16,
+    pointerEvents: 'none',
+};
+
+const warningStyle: CSSProperties = { color: '#ff6666' };
+
+/**
+ * Printability report for the current tree (see printAnalysis.ts), and the
+ * progress of a running batch or scene export
+ */
+export const PrintReportPanel = () => {
+    const report = useTreeStore((state) => state.printReport);
+    const batchProgress = useTreeStore((state) => state.batchProgress);
+    if (!report && !batchProgress) return null;
+
+    return (
+        <div style={panelStyle}>
+            {report && <ReportLines report={report} />}
+            {batchProgress && (
+                <div style={{ marginTop: report ? 4 : 0, color: '#88ccff' }}>
+                    Serieexport: {batchProgress.done} / {batchProgress.total}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ReportLines = ({ report }: { report: PrintReport }) => {
+    const { min, max } = report.boundingBox;
+    const size = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+
+    return (
+        <>
+            <div style={{ fontWeight: 'bold', marginBottom: 4 }}>Utskriftsanalys</div>
+            <div>Storlek: {size.map((value) => value.toFixed(1)).join(' × ')} mm</div>
+            <div>Volym: {(report.volume / 1000).toFixed(2)} cm³</div>
+            <div>Yta: {(report.surfaceArea / 100).toFixed(1)} cm²</div>
+            <div>Filament: ~{report.filamentGrams.toFixed(1)} g</div>
+            <div style={report.thinSegments.length > 0 ? warningStyle : undefined}>
+                Tunna grenar (&lt; {report.minDiameter.toFixed(1)} mm): {report.thinSegments.length}
+            </div>
+            <div style={report.overhangArea > 0 ? { color: '#ffaa44' } : undefined}>
+                Överhäng: {report.overhangArea.toFixed(0)} mm²
+            </div>
+            <div style={report.components > 1 ? warningStyle : undefined}>
+                Separata delar: {report.components}
+            </div>
+        </>
+    );
+};
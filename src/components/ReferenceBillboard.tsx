@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import type { ReferenceImage } from '../store/useTreeStore';
+
+interface ReferenceBillboardProps {
+    image: ReferenceImage;
+    treeHeight: number;
+}
+
+/**
+ * The photo the crown was fitted to, standing behind the tree: scaled so
+ * the photographed tree is as tall as the generated one, with its trunk on
+ * the trunk axis and its foot on the ground. It faces +Z, pushed back past
+ * the widest crown so the branches grow in front of it.
+ */
+export const ReferenceBillboard = ({ image, treeHeight }: ReferenceBillboardProps) => {
+    const [texture, setTexture] = useState<THREE.Texture | null>(null);
+
+    useEffect(() => {
+        let loaded: THREE.Texture | null = null;
+        let cancelled = false;
+        new THREE.TextureLoader().load(image.url, (result) => {
+            result.colorSpace = THREE.SRGBColorSpace;
+            if (cancelled) {
+                result.dispose();
+                return;
+            }
+            loaded = result;
+            setTexture(result);
+        });
+        return () => {
+            cancelled = true;
+            loaded?.dispose();
+            setTexture(null);
+        };
+    }, [image.url]);
+
+    if (!texture) return null;
+
+    // Metres per pixel of the image this photo was measured on
+    const scale = treeHeight / Math.max(1, image.ground - image.top);
+    const width = image.imageWidth * scale;
+    const height = image.imageHeight * scale;
+
+    return (
+        <mesh
+            position={[
+                (image.imageWidth / 2 - image.axis) * scale,
+                (image.ground - image.imageHeight / 2) * scale,
+                -image.halfWidth * scale * 1.2,
+            ]}
+        >
+            <planeGeometry args={[width, height]} />
+            <meshBasicMaterial map={texture} transparent opacity={0.6} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+    );
+};
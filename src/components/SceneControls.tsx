@@ -0,0 +1,188 @@
+import { useControls, folder, button } from 'leva';
+import { useEffect } from 'react';
+import { useTreeStore, MAX_SEED, type TreeSettings, type TreeSpecies } from '../store/useTreeStore';
+import { getSpeciesPreset, speciesOptions } from '../engine/botanisten/speciesRegistry';
+import { parseSurveyCSV, type SceneExportMode, type SceneTree, type SurveyImport } from '../engine/scene';
+import { parseTreeInventory } from '../engine/treeInventory';
+import { parseSpeciesMapping } from '../engine/speciesMapping';
+
+// Value of the tree selector when no tree is selected (tree ids start at 1)
+const NO_SELECTION = 0;
+
+const treeLabel = (tree: SceneTree) =>
+    `${tree.id}: ${getSpeciesPreset(tree.species).name.split(' ')[0]} ${tree.height} m`;
+
+// Trees are added row by row, five to a row, spaced for crowns of the current height
+const addTree = () => {
+    const state = useTreeStore.getState();
+    const count = state.sceneTrees.length;
+    const spacing = Math.max(4, Math.round(state.treeHeight * 0.6));
+    state.applySettings({ sceneMode: true });
+    state.addSceneTree({
+        x: (count % 5) * spacing,
+        z: Math.floor(count / 5) * spacing,
+        species: state.treeSpecies,
+        height: state.treeHeight,
+        seed: state.seed + count,
+    });
+};
+
+// Read a survey or inventory file into the scene. Unknown species names are
+// added to the mapping without a species, ready for the user to fill in.
+const importTrees = (accept: string, parse: (text: string, settings: TreeSettings) => SurveyImport) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = async () => {
+        const file = input.files?.[0];
+        if (!file) return;
+        try {
+            const state = useTreeStore.getState();
+            const { trees, warnings, unknownSpecies } = parse(await file.text(), state);
+            const mapped = parseSpeciesMapping(state.speciesMapping);
+            const newNames = unknownSpecies.filter((name) => !mapped.has(name.toLowerCase()) && !state.speciesMapping.includes(`${name} =`));
+
+            state.setSceneTrees(trees);
+            state.applySettings({
+                sceneMode: true,
+                speciesMapping: [state.speciesMapping, ...newNames.map((name) => `${name} = `)].join('\n'),
+            });
+
+            // Site size on the print, to check it fits the plate
+            const width = Math.max(...trees.map((tree) => tree.x)) - Math.min(...trees.map((tree) => tree.x));
+            const depth = Math.max(...trees.map((tree) => tree.z)) - Math.min(...trees.map((tree) => tree.z));
+            const toMM = (metres: number) => (metres * 1000 / state.modelScale).toFixed(0);
+            window.alert([
+                `${trees.length} träd importerade, ${toMM(width)} × ${toMM(depth)} mm i 1:${state.modelScale}.`,
+                ...warnings.slice(0, 10),
+                newNames.length > 0 ? 'Okända namn har lagts till i artmappningen.' : '',
+            ].filter(Boolean).join('\n\n'));
+        } catch (err) {
+            console.error('[SceneControls] Import failed:', err);
+            window.alert('Kunde inte läsa filen.');
+        }
+    };
+    input.click();
+};
+
+/**
+ * Scene of several trees on a site plan (see scene.ts). The selected
+ * tree's fields follow the selection, whether it is made here or by
+ * clicking a tree in the viewport.
+ */
+export const SceneControls = () => {
+    const updateSettings = useTreeStore((state) => state.updateSettings);
+    const settingsRevision = useTreeStore((state) => state.settingsRevision);
+    const speciesRevision = useTreeStore((state) => state.speciesRevision);
+    const sceneTrees = useTreeStore((state) => state.sceneTrees);
+    const selectedId = useTreeStore((state) => state.selectedSceneTree);
+    const selected = sceneTrees.find((tree) => tree.id === selectedId);
+
+    const treeOptions = {
+        '(inget)': NO_SELECTION,
+        ...Object.fromEntries(sceneTrees.map((tree) => [treeLabel(tree), tree.id])),
+    };
+    const treeOptionsKey = JSON.stringify(treeOptions);
+
+    const [values, set] = useControls(() => {
+        const state = useTreeStore.getState();
+        const showTree = (get: (path: string) => unknown) =>
+            Boolean(get('Scen.sceneMode')) && get('Scen.selectedSceneTree') !== NO_SELECTION;
+
+        return {
+            'Scen': folder({
+                sceneMode: { value: state.sceneMode, label: 'Scenläge' },
+                sceneShading: {
+                    value: state.sceneShading,
+                    label: 'Grannhänsyn',
+                    render: (get) => get('Scen.sceneMode'),
+                },
+                'Lägg till träd ➕': button(addTree),
+                selectedSceneTree: {
+                    value: state.selectedSceneTree ?? NO_SELECTION,
+                    options: treeOptions,
+                    label: 'Valt träd',
+                    render: (get) => get('Scen.sceneMode'),
+                },
+                sceneTreeSpecies: {
+                    value: 'linden' as TreeSpecies,
+                    options: speciesOptions(),
+                    label: 'Art',
+                    render: showTree,
+                },
+                sceneTreeHeight: { value: 15, min: 1, max: 40, step: 0.5, label: 'Höjd (m)', render: showTree },
+                sceneTreeSeed: { value: 42, min: 0, max: MAX_SEED, step: 1, label: 'Frö', render: showTree },
+                sceneTreeX: { value: 0, step: 0.1, label: 'X (m)', render: showTree },
+                sceneTreeZ: { value: 0, step: 0.1, label: 'Z (m)', render: showTree },
+                'Ta bort träd 🗑️': button(() => {
+                    const { selectedSceneTree, removeSceneTree } = useTreeStore.getState();
+                    if (selectedSceneTree !== null) removeSceneTree(selectedSceneTree);
+                }),
+                'Importera inmätning (CSV) 📄': button(() => importTrees('text/csv,.csv,.txt', parseSurveyCSV)),
+                'Importera trädinventering (GeoJSON) 🗺️': button(() => importTrees('application/geo+json,.geojson,.json', parseTreeInventory)),
+                speciesMapping: { value: state.speciesMapping, rows: 6, label: 'Artmappning' },
+                sceneExportMode: {
+                    value: state.sceneExportMode,
+                    options: { 'En fil per träd': 'separate', 'Sammanfogad på gemensam platta': 'merged' },
+                    label: 'Export',
+                    render: (get) => get('Scen.sceneMode'),
+                },
+            }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' }),
+        };
+    }, [treeOptionsKey, speciesRevision]);
+
+    useEffect(() => {
+        updateSettings({
+            sceneMode: values.sceneMode,
+            sceneShading: values.sceneShading,
+            sceneExportMode: values.sceneExportMode as SceneExportMode,
+            speciesMapping: values.speciesMapping,
+        } as Partial<TreeSettings>);
+    }, [values.sceneMode, values.sceneShading, values.sceneExportMode, values.speciesMapping, updateSettings]);
+
+    // Selection made in the panel
+    useEffect(() => {
+        const id = values.selectedSceneTree === NO_SELECTION ? null : values.selectedSceneTree;
+        if (id !== useTreeStore.getState().selectedSceneTree) useTreeStore.getState().selectSceneTree(id);
+    }, [values.selectedSceneTree]);
+
+    // Selection made in the viewport, or a tree added, moved or removed
+    useEffect(() => {
+        set({ selectedSceneTree: selectedId ?? NO_SELECTION });
+        if (!selected) return;
+        set({
+            sceneTreeSpecies: selected.species,
+            sceneTreeHeight: selected.height,
+            sceneTreeSeed: selected.seed,
+            sceneTreeX: selected.x,
+            sceneTreeZ: selected.z,
+        });
+    }, [selected, selectedId, set]);
+
+    // Edits of the selected tree's fields. The store's tree is read here instead
+    // of being a dependency, so a tree moved in the viewport is not moved back.
+    useEffect(() => {
+        const { sceneTrees, selectedSceneTree, updateSceneTree } = useTreeStore.getState();
+        const tree = sceneTrees.find((other) => other.id === selectedSceneTree);
+        if (!tree || values.selectedSceneTree !== tree.id) return;
+
+        const changes = {
+            species: values.sceneTreeSpecies as TreeSpecies,
+            height: values.sceneTreeHeight,
+            seed: values.sceneTreeSeed,
+            x: values.sceneTreeX,
+            z: values.sceneTreeZ,
+        };
+        const changed = (Object.keys(changes) as (keyof typeof changes)[]).some((key) => changes[key] !== tree[key]);
+        if (changed) updateSceneTree(tree.id, changes);
+    }, [values.selectedSceneTree, values.sceneTreeSpecies, values.sceneTreeHeight, values.sceneTreeSeed, values.sceneTreeX, values.sceneTreeZ]);
+
+    // Show a scene loaded from a preset or link
+    useEffect(() => {
+        if (settingsRevision === 0) return;
+        const { sceneMode, sceneShading, sceneExportMode, speciesMapping } = useTreeStore.getState();
+        set({ sceneMode, sceneShading, sceneExportMode, speciesMapping });
+    }, [settingsRevision, set]);
+
+    return null;
+};
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react';
+import { TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { useTreeStore, type TreeSettings } from '../store/useTreeStore';
+import { getEngine } from '../engine/botanisten/engines';
+import { requestSolidMesh } from '../engine/batchExport';
+import { solidOptionsFromSettings } from '../engine/solidOptions';
+import type { ExportMesh } from '../engine/exporters';
+import { generateScene, type SceneTree } from '../engine/scene';
+
+// Settings besides species, height and seed that change a scene tree's solid
+const SHARED_KEYS: (keyof TreeSettings)[] = [
+    ...getEngine('realistic').settingKeys.filter((key) => key !== 'treeSpecies' && key !== 'treeHeight'),
+    'meshingMode', 'filletScale', 'nozzleDiameter', 'minWallCount', 'layerHeight', 'thinBranchHandling',
+];
+
+const TREE_COLOR = '#c8d8c0';
+const SELECTED_COLOR = '#e8d8a0';
+
+// Worker request ids, unique so a superseded request never answers a newer one
+let requestCount = 0;
+
+// Identifies a tree's solid. With shading the crown also depends on where the others stand;
+// a species saved under the same id (a new species revision) has new parameters.
+const treeKey = (settings: TreeSettings, tree: SceneTree, speciesRevision: number) => JSON.stringify([
+    SHARED_KEYS.map((key) => settings[key]),
+    tree.species,
+    tree.height,
+    tree.seed,
+    speciesRevision,
+    settings.sceneShading
+        ? settings.sceneTrees.map((other) => [other.x - tree.x, other.z - tree.z, other.species, other.height])
+        : null,
+]);
+
+const toGeometry = ({ numProp, vertProperties, triVerts }: ExportMesh) => {
+    const numVerts = vertProperties.length / numProp;
+    const positions = new Float32Array(numVerts * 3);
+    for (let i = 0; i < numVerts; i++) {
+        positions[i * 3 + 0] = vertProperties[i * numProp + 0];
+        positions[i * 3 + 1] = vertProperties[i * numProp + 1];
+        positions[i * 3 + 2] = vertProperties[i * numProp + 2];
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setIndex(new THREE.BufferAttribute(triVerts, 1));
+    geometry.computeVertexNormals();
+    return geometry;
+};
+
+/**
+ * The trees of the scene at their site positions. Click a tree to select
+ * it and drag the gizmo to move it; solids are built by the worker and
+ * kept until the tree or the shared settings change.
+ */
+export const SceneView = ({ worker }: { worker: Worker }) => {
+    const settings = useTreeStore((state) => state);
+    const geometries = useRef(new Map<string, THREE.BufferGeometry>());
+    const [, setBuilt] = useState(0);
+    const [selectedObject, setSelectedObject] = useState<THREE.Group | null>(null);
+
+    const keys = settings.sceneTrees.map((tree) => treeKey(settings, tree, settings.speciesRevision));
+    const keysJSON = JSON.stringify(keys);
+
+    useEffect(() => {
+        if (!settings.workerReady) return;
+        let cancelled = false;
+
+        const timer = setTimeout(async () => {
+            const state = useTreeStore.getState();
+            const wanted = state.sceneTrees.map((tree) => treeKey(state, tree, state.speciesRevision));
+            const cache = geometries.current;
+
+            try {
+                if (wanted.some((key) => !cache.has(key))) {
+                    console.log('[SceneView] Building', wanted.filter((key) => !cache.has(key)).length, 'of', wanted.length, 'trees');
+                    const placements = generateScene(state);
+                    const solidOptions = solidOptionsFromSettings(state);
+
+                    for (const [index, { generated }] of placements.entries()) {
+                        if (cache.has(wanted[index])) continue;
+                        const mesh = await requestSolidMesh(worker, `view:${++requestCount}`, {
+                            branches: generated.branches,
+                            foliage: generated.foliage,
+                            ...solidOptions,
+                            base: { ...solidOptions.base, type: 'none' },
+                            modelScale: 1,
+                        });
+                        if (cancelled) return;
+                        cache.set(wanted[index], toGeometry(mesh));
+                        setBuilt((count) => count + 1);
+                    }
+                }
+            } catch (err) {
+                console.error('[SceneView] Building scene failed:', err);
+                return;
+            }
+
+            // Free the solids of trees that were moved, changed or removed
+            for (const [key, geometry] of cache) {
+                if (wanted.includes(key)) continue;
+                geometry.dispose();
+                cache.delete(key);
+            }
+            useTreeStore.getState().solidsBuilt();
+        }, 300);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [settings.workerReady, keysJSON, worker]);
+
+    const selected = settings.sceneTrees.find((tree) => tree.id === settings.selectedSceneTree);
+    const scale = settings.targetScale;
+
+    return (
+        <>
+            <group scale={[scale, scale, scale]}>
+                {settings.sceneTrees.map((tree, index) => {
+                    const geometry = geometries.current.get(keys[index]);
+                    const color = tree.id === settings.selectedSceneTree ? SELECTED_COLOR : TREE_COLOR;
+                    return (
+                        <group
+                            key={tree.id}
+                            ref={tree.id === settings.selectedSceneTree ? setSelectedObject : undefined}
+                            position={[tree.x, 0, tree.z]}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                settings.selectSceneTree(tree.id);
+                            }}
+                        >
+                            {geometry ? (
+                                <mesh geometry={geometry} castShadow receiveShadow>
+                                    <meshStandardMaterial color={color} metalness={0.1} roughness={0.9} />
+                                </mesh>
+                            ) : (
+                                // Stand-in while the worker builds the tree
+                                <mesh position={[0, tree.height / 2, 0]}>
+                                    <cylinderGeometry args={[0.2, 0.2, tree.height, 8]} />
+                                    <meshStandardMaterial color={color} wireframe />
+                                </mesh>
+                            )}
+                        </group>
+                    );
+                })}
+            </group>
+            {selected && selectedObject && (
+                <TransformControls
+                    object={selectedObject}
+                    mode="translate"
+                    showY={false}
+                    onMouseUp={() => {
+                        const round = (value: number) => Math.round(value * 100) / 100;
+                        settings.updateSceneTree(selected.id, {
+                            x: round(selectedObject.position.x),
+                            z: round(selectedObject.position.z),
+                        });
+                    }}
+                />
+            )}
+        </>
+    );
+};
@@ -0,0 +1,168 @@
+import { useControls, folder, button } from 'leva';
+import { useEffect } from 'react';
+import { useTreeStore } from '../store/useTreeStore';
+import type { TreePreset } from '../engine/botanisten/realisticTree';
+import {
+    DEFAULT_SPECIES, PRESET_FIELDS, customSpeciesToJSON, deleteCustomSpecies, getAllSpecies, getSpeciesPreset,
+    importCustomSpecies, isBuiltInSpecies, parseSpeciesJSON, saveCustomSpecies, speciesOptions,
+} from '../engine/botanisten/speciesRegistry';
+import { fitSilhouette } from '../engine/botanisten/silhouette';
+import { downloadFile } from './download';
+
+// Fields with a panel input; the crown profile is drawn in its own editor
+const FIELDS = (Object.keys(PRESET_FIELDS) as (keyof TreePreset)[]).filter((field) => PRESET_FIELDS[field].kind !== 'profile');
+
+// Panel key of a preset field, e.g. radiusDecay -> speciesRadiusDecay
+const editorKey = (field: string) => `species${field[0].toUpperCase()}${field.slice(1)}`;
+
+const fieldInput = (field: keyof TreePreset, value: unknown) => {
+    const spec = PRESET_FIELDS[field];
+    if (spec.kind === 'number') return { value: value as number, min: spec.min, max: spec.max, step: spec.step, label: spec.label };
+    if (spec.kind === 'option') return { value: value as string, options: [...spec.options], label: spec.label };
+    if (spec.kind === 'profile') throw new Error(`${field} has no panel input`);
+    return { value: value as string, label: spec.label };
+};
+
+// Rebuild the species selectors and grow the tree with the species, in its own crown profile
+const selectSpecies = (id: string) => {
+    const state = useTreeStore.getState();
+    state.speciesChanged();
+    state.applySettings({ treeSpecies: id, crownProfile: null });
+};
+
+// Longest side, in pixels, of the copy of a photo the silhouette is measured on
+const FIT_IMAGE_SIZE = 256;
+
+const clearReferenceImage = () => {
+    const state = useTreeStore.getState();
+    if (state.referenceImage) URL.revokeObjectURL(state.referenceImage.url);
+    state.setReferenceImage(null);
+};
+
+// Fit the crown of the current tree to a side-view photo and show the photo behind it
+const fitToPhoto = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.onchange = () => {
+        const file = input.files?.[0];
+        if (!file) return;
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(1, FIT_IMAGE_SIZE / Math.max(image.width, image.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.width * scale));
+            canvas.height = Math.max(1, Math.round(image.height * scale));
+            const context = canvas.getContext('2d')!;
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+            const state = useTreeStore.getState();
+            try {
+                const fit = fitSilhouette(context.getImageData(0, 0, canvas.width, canvas.height), {
+                    treeHeight: state.treeHeight,
+                    minRadius: state.minPrintableRadius,
+                    preset: state.treeSpecies,
+                    habit: state.growthHabit === 'species' ? undefined : state.growthHabit,
+                });
+                clearReferenceImage();
+                state.setReferenceImage({ url, ...fit.placement });
+                state.applySettings({ trunkHeight: fit.trunkHeight, crownWidth: fit.crownWidth, crownProfile: fit.crownProfile });
+            } catch (err) {
+                console.error('[SpeciesControls] Could not fit the photo:', err);
+                URL.revokeObjectURL(url);
+                window.alert('Hittade inget träd i bilden. Använd en sidobild mot ljus himmel eller en urklippt bild.');
+            }
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            window.alert('Kunde inte läsa bilden.');
+        };
+        image.src = url;
+    };
+    input.click();
+};
+
+/**
+ * Editor for user species (see speciesRegistry.ts): start from any species,
+ * change its parameters and save it under a new name.
+ */
+export const SpeciesControls = () => {
+    const speciesRevision = useTreeStore((state) => state.speciesRevision);
+
+    const [values, set] = useControls(() => {
+        const base = getSpeciesPreset(DEFAULT_SPECIES);
+        return {
+            'Arteditor': folder({
+                speciesBase: { value: DEFAULT_SPECIES, options: speciesOptions(), label: 'Utgå från' },
+                ...Object.fromEntries(FIELDS.map((field) => [editorKey(field), fieldInput(field, base[field])])),
+                'Spara som egen art 💾': button((get) => {
+                    const preset = Object.fromEntries(
+                        FIELDS.map((field) => [field, get(`Arteditor.${editorKey(field)}`)])
+                    ) as unknown as TreePreset;
+                    // The profile drawn for the current tree, or the base species' own
+                    preset.crownProfile = useTreeStore.getState().crownProfile ??
+                        getSpeciesPreset(get('Arteditor.speciesBase')).crownProfile;
+                    const taken = Object.entries(getAllSpecies())
+                        .some(([id, other]) => isBuiltInSpecies(id) && other.name === preset.name);
+                    if (taken) {
+                        window.alert('Ge arten ett eget namn.');
+                        return;
+                    }
+                    try {
+                        const id = saveCustomSpecies(preset);
+                        console.log('[SpeciesControls] Saved species', id);
+                        selectSpecies(id);
+                    } catch (err) {
+                        console.error('[SpeciesControls] Invalid species:', err);
+                        window.alert('Arten har ogiltiga värden.');
+                    }
+                }),
+                'Rita kronprofil ✏️': button(() => useTreeStore.getState().setCrownProfileEditor(true)),
+                // The photo gives the shape, the tree height the size
+                'Anpassa till foto 📷': button(fitToPhoto),
+                'Ta bort referensbild': button(clearReferenceImage),
+                'Ta bort egen art 🗑️': button((get) => {
+                    const id = get('Arteditor.speciesBase');
+                    if (isBuiltInSpecies(id)) {
+                        window.alert('Inbyggda arter kan inte tas bort.');
+                        return;
+                    }
+                    if (!window.confirm(`Ta bort "${getSpeciesPreset(id).name}"?`)) return;
+                    deleteCustomSpecies(id);
+                    selectSpecies(DEFAULT_SPECIES);
+                }),
+                'Importera arter (JSON)': button(() => {
+                    const input = document.createElement('input');
+                    input.type = 'file';
+                    input.accept = 'application/json,.json';
+                    input.onchange = async () => {
+                        const file = input.files?.[0];
+                        if (!file) return;
+                        try {
+                            const ids = importCustomSpecies(parseSpeciesJSON(await file.text()));
+                            console.log('[SpeciesControls] Imported species', ids);
+                            if (ids.length > 0) selectSpecies(ids[0]);
+                        } catch (err) {
+                            console.error('[SpeciesControls] Import failed:', err);
+                            window.alert(`Kunde inte läsa arterna.\n\n${(err as Error).message}`);
+                        }
+                    };
+                    input.click();
+                }),
+                'Exportera egna arter (JSON)': button(() => {
+                    downloadFile(customSpeciesToJSON(), 'arter.json', 'application/json');
+                }),
+            }, { collapsed: true, render: (get) => get('Mode.generationMode') === 'realistic' }),
+        };
+    }, [speciesRevision]);
+
+    // Choosing a species fills in the editor
+    const baseId = values.speciesBase as string;
+    useEffect(() => {
+        const preset = getSpeciesPreset(baseId);
+        set(Object.fromEntries(FIELDS.map((field) => [editorKey(field), preset[field]])));
+    }, [baseId, speciesRevision, set]);
+
+    return null;
+};
@@ -1,18 +1,54 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { useTreeStore } from '../store/useTreeStore';
-import { RealisticTreeGenerator } from '../engine/botanisten/realisticTree';
-import { AttractorGenerator } from '../engine/fysikern/attractors';
+import { getEngine } from '../engine/botanisten/engines';
+import type { BranchSegment } from '../engine/botanisten/branchGraph';
+import { attractorSculpture } from '../engine/fysikern/sculpture';
+import type { FoliageCluster } from '../engine/botanisten/treeStyles';
+import { EXPORT_FORMATS, type ExportFormat } from '../engine/exporters';
+import { exportBatch } from '../engine/batchExport';
+import { exportScene } from '../engine/scene';
+import { solidOptionsFromSettings } from '../engine/solidOptions';
+import { enforcePrintabilityOnSegments, policyFromSettings } from '../engine/printability';
+import type { PrintReport } from '../engine/printAnalysis';
+import { PrintIssues } from './PrintIssues';
+import { SceneView } from './SceneView';
+import { ReferenceBillboard } from './ReferenceBillboard';
+import { downloadFile } from './download';
 
 // Bridge to Web Worker
 const worker = new Worker(new URL('../engine/manifold.worker.ts', import.meta.url), { type: 'module' });
 
+// Ask the worker to check the current solid against the print settings
+const requestAnalysis = () => {
+    const state = useTreeStore.getState();
+    worker.postMessage({ type: 'ANALYZE', payload: { printability: policyFromSettings(state), overhangAngle: state.overhangAngle } });
+};
+
 export const Tree = () => {
     const settings = useTreeStore((state) => state);
     const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
+    const [generatedBranches, setGeneratedBranches] = useState<BranchSegment[]>([]);
+    const sceneActive = settings.sceneMode && settings.generationMode === 'realistic';
 
-    const treeGenerator = useRef(new RealisticTreeGenerator());
+    // Only the settings read by the active engine should trigger regeneration
+    const engineSettingsKey = JSON.stringify(
+        getEngine(settings.generatorEngine).settingKeys.map((key) => settings[key])
+    );
+
+    // The abstract curve is regrown when any of its settings change
+    const attractorSettingsKey = JSON.stringify([
+        settings.attractorType, settings.attractorIterations, settings.attractorCoefficients, settings.attractorDt,
+        settings.attractorStart, settings.attractorTransient, settings.treeHeight, settings.sculptureRadius,
+        settings.sculptureRadiusMode, settings.sculptureRadiusVariation, settings.sculptureSmoothing,
+        settings.sculptureStandHeight,
+    ]);
+
+    // Re-check printability for every new solid and when print settings change
+    useEffect(() => {
+        if (geometry) requestAnalysis();
+    }, [geometry, settings.overhangAngle]);
 
     useEffect(() => {
         console.log('[Tree] Initializing worker...');
@@ -30,23 +66,22 @@ export const Tree = () => {
                 newGeo.computeVertexNormals();
                 setGeometry(newGeo);
                 setIsGenerating(false);
+                useTreeStore.getState().solidsBuilt();
+            }
+            if (type === 'ANALYSIS_READY') {
+                console.log('[Tree] ANALYSIS_READY received');
+                useTreeStore.getState().setPrintReport(payload as PrintReport);
             }
             if (type === 'READY') {
                 console.log('[Tree] Worker READY, triggering initial generation');
                 useTreeStore.getState().setWorkerReady(true);
                 useTreeStore.getState().generate();
             }
-            if (type === 'STL_READY') {
-                console.log('[Tree] STL_READY received, downloading file...');
-                const blob = new Blob([payload], { type: 'application/octet-stream' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = 'tree.stl';
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-                URL.revokeObjectURL(url);
+            if (type === 'EXPORT_READY') {
+                console.log('[Tree] EXPORT_READY received, downloading file...');
+                const { buffer, format, seed } = payload as { buffer: ArrayBuffer; format: ExportFormat; seed: number };
+                const { extension, mimeType } = EXPORT_FORMATS[format];
+                downloadFile(buffer, `tree_seed${seed}.${extension}`, mimeType);
             }
             if (type === 'ERROR') {
                 console.error('[Tree] Worker ERROR:', payload);
@@ -60,19 +95,86 @@ export const Tree = () => {
         };
 
         const handleExportEvent = () => {
-            console.log('[Tree] EXPORT_STL event received, requesting export...');
-            const { modelScale } = useTreeStore.getState();
-            worker.postMessage({ type: 'EXPORT_STL', payload: { modelScale } });
+            const state = useTreeStore.getState();
+            if (state.sceneMode && state.generationMode === 'realistic') {
+                handleSceneExport();
+                return;
+            }
+
+            console.log('[Tree] EXPORT_MODEL event received, requesting export...');
+            const { modelScale, exportFormat, seed, generatorEngine } = state;
+            worker.postMessage({ type: 'EXPORT_MODEL', payload: { modelScale, format: exportFormat, seed, engine: generatorEngine } });
+        };
+
+        const handleBatchEvent = async () => {
+            const state = useTreeStore.getState();
+            if (state.batchProgress) {
+                console.log('[Tree] Batch export already running, ignoring');
+                return;
+            }
+            if (state.generationMode !== 'realistic') {
+                console.error('[Tree] Batch export needs realistic mode');
+                return;
+            }
+            if (!state.workerReady) {
+                console.error('[Tree] Batch export needs the worker, which is not ready yet');
+                return;
+            }
+
+            console.log('[Tree] EXPORT_BATCH event received, building', state.batchCount, 'variants...');
+            state.setBatchProgress({ done: 0, total: state.batchCount });
+            try {
+                const zip = await exportBatch(worker, state, {
+                    count: state.batchCount,
+                    seedStart: state.batchSeedStart,
+                    heightSpread: state.batchHeightSpread,
+                    heightDistribution: state.batchHeightDistribution,
+                    crownJitter: state.batchCrownJitter,
+                    packaging: state.batchPackaging,
+                }, (done, total) => useTreeStore.getState().setBatchProgress({ done, total }));
+                downloadFile(zip, `trees_${state.treeSpecies}_${state.batchCount}.zip`, 'application/zip');
+            } catch (err) {
+                console.error('[Tree] Batch export failed:', err);
+            } finally {
+                useTreeStore.getState().setBatchProgress(null);
+            }
+        };
+
+        const handleSceneExport = async () => {
+            const state = useTreeStore.getState();
+            if (state.batchProgress) {
+                console.log('[Tree] Batch export already running, ignoring');
+                return;
+            }
+            if (!state.workerReady) {
+                console.error('[Tree] Scene export needs the worker, which is not ready yet');
+                return;
+            }
+
+            console.log('[Tree] Exporting scene with', state.sceneTrees.length, 'trees,', state.sceneExportMode);
+            state.setBatchProgress({ done: 0, total: state.sceneTrees.length });
+            try {
+                const { buffer, fileName, mimeType } = await exportScene(
+                    worker, state, (done, total) => useTreeStore.getState().setBatchProgress({ done, total })
+                );
+                downloadFile(buffer, fileName, mimeType);
+            } catch (err) {
+                console.error('[Tree] Scene export failed:', err);
+            } finally {
+                useTreeStore.getState().setBatchProgress(null);
+            }
         };
 
         worker.addEventListener('message', handleMessage);
         window.addEventListener('GENERATE_TREE', handleGenerateEvent);
-        window.addEventListener('EXPORT_STL', handleExportEvent);
+        window.addEventListener('EXPORT_MODEL', handleExportEvent);
+        window.addEventListener('EXPORT_BATCH', handleBatchEvent);
 
         return () => {
             worker.removeEventListener('message', handleMessage);
             window.removeEventListener('GENERATE_TREE', handleGenerateEvent);
-            window.removeEventListener('EXPORT_STL', handleExportEvent);
+            window.removeEventListener('EXPORT_MODEL', handleExportEvent);
+            window.removeEventListener('EXPORT_BATCH', handleBatchEvent);
         };
     }, []);
 
@@ -86,80 +188,74 @@ export const Tree = () => {
             console.log('[Tree] Worker not ready yet, skipping generation');
             return;
         }
+        if (sceneActive) {
+            console.log('[Tree] Scene mode, the scene builds its own trees');
+            return;
+        }
 
         const timer = setTimeout(() => {
             console.log('[Tree] Starting tree generation...');
             setIsGenerating(true);
-            let branches: any[] = [];
-
-            if (settings.generationMode === 'realistic') {
-                console.log('[Tree] Generating realistic tree:', settings.treeSpecies, settings.treeAge);
-
-                // Minimum 3D printable radius (1mm radius = 2mm diameter)
-                // We use this to ensure the finest branches are printable
-                const minPrintRadius = 0.001 * settings.modelScale;
-                // We allow some detail but stay above a reasonable threshold
-                const effectiveMinRadius = Math.max(settings.minPrintableRadius, minPrintRadius * 0.4);
-
-                console.log('[Tree] Min printable radius:', minPrintRadius.toFixed(3), 'm, effective:', effectiveMinRadius.toFixed(3), 'm');
-
-                branches = treeGenerator.current.generateTree({
-                    treeHeight: settings.treeHeight,
-                    minRadius: effectiveMinRadius,
-                    seed: settings.triggerGeneration,
-                    preset: settings.treeSpecies,
-                    age: settings.treeAge,
-                    crownWidth: settings.crownWidth,
-                    trunkHeight: settings.trunkHeight,
-                    crownDensity: settings.crownDensity,
-                    trunkThickness: settings.trunkThickness,
-                });
+            try {
+                let branches: BranchSegment[] = [];
+                let foliage: FoliageCluster[] = [];
+                let solidOptions = solidOptionsFromSettings(settings);
 
-                console.log('[Tree] Generated', branches.length, 'realistic segments');
-            } else {
-                // Abstract mode - attractors
-                const points = AttractorGenerator.generate(
-                    settings.attractorType,
-                    settings.attractorIterations,
-                    0.02
-                );
-                for (let i = 0; i < points.length - 1; i++) {
-                    branches.push({
-                        start: [points[i].x, points[i].y, points[i].z],
-                        end: [points[i + 1].x, points[i + 1].y, points[i + 1].z],
-                        r1: settings.initialRadius * 0.1,
-                        r2: settings.initialRadius * 0.1
-                    });
+                if (settings.generationMode === 'realistic') {
+                    const engine = getEngine(settings.generatorEngine);
+                    console.log('[Tree] Generating with engine:', engine.id);
+
+                    ({ branches, foliage } = engine.generate(settings));
+
+                    console.log('[Tree] Generated', branches.length, 'segments and', foliage.length, 'foliage clusters');
+                } else {
+                    // Abstract mode - an attractor sculpture on a column
+                    const sculpture = attractorSculpture(settings);
+                    solidOptions = sculpture.solidOptions;
+                    // Engines apply the policy themselves; the curve is checked here
+                    // so the print issue overlay indexes the same segments as the worker
+                    branches = enforcePrintabilityOnSegments(sculpture.branches, solidOptions.printability);
                 }
-            }
 
-            console.log('[Tree] Sending GENERATE_TREE to worker with', branches.length, 'branches');
-            worker.postMessage({
-                type: 'GENERATE_TREE',
-                payload: { branches, foliage: [] } // No separate foliage - all in branches
-            });
+                setGeneratedBranches(branches);
+                console.log('[Tree] Sending GENERATE_TREE to worker with', branches.length, 'branches');
+                worker.postMessage({
+                    type: 'GENERATE_TREE',
+                    payload: { branches, foliage, ...solidOptions }
+                });
+            } catch (err) {
+                // A throwing generator must not leave generation locked
+                console.error('[Tree] Generation failed:', err);
+                setIsGenerating(false);
+            }
         }, 300);
 
         return () => clearTimeout(timer);
     }, [
         settings.workerReady,
         settings.triggerGeneration,
+        settings.seed,
         settings.generationMode,
-        settings.treeSpecies,
-        settings.treeAge,
-        settings.treeHeight,
-        settings.crownWidth,
-        settings.trunkHeight,
-        settings.crownDensity,
-        settings.recursionDepth,
-        settings.minPrintableRadius,
+        settings.generatorEngine,
+        engineSettingsKey,
+        attractorSettingsKey,
+        settings.baseType,
+        settings.baseDiameter,
+        settings.baseHeight,
+        settings.basePinDiameter,
+        settings.basePinLength,
+        settings.meshingMode,
+        settings.filletScale,
         settings.modelScale,
-        settings.targetScale,
-        settings.trunkThickness,
-        settings.attractorType,
-        settings.attractorIterations,
+        settings.nozzleDiameter,
+        settings.minWallCount,
+        settings.layerHeight,
+        settings.thinBranchHandling,
+        settings.speciesRevision,
+        sceneActive,
     ]);
 
+    if (sceneActive) return <SceneView worker={worker} />;
     if (!geometry) return null;
 
     // Light green/white color similar to the physical models
@@ -170,6 +266,12 @@ export const Tree = () => {
             <mesh geometry={geometry} castShadow receiveShadow>
                 <meshStandardMaterial color={meshColor} metalness={0.1} roughness={0.9} />
             </mesh>
+            {settings.showPrintIssues && settings.printReport && (
+                <PrintIssues geometry={geometry} branches={generatedBranches} report={settings.printReport} />
+            )}
+            {settings.referenceImage && settings.generationMode === 'realistic' && (
+                <ReferenceBillboard image={settings.referenceImage} treeHeight={settings.treeHeight} />
+            )}
         </group>
     );
 };
@@ -2,10 +2,13 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment, Grid } from '@react-three/drei';
 import { Suspense } from 'react';
 import { Tree } from './Tree';
+import { PrintReportPanel } from './PrintReportPanel';
+import { GrowthTimeline } from './GrowthTimeline';
+import { CrownProfileEditor } from './CrownProfileEditor';
 
 export const Viewport = () => {
     return (
-        <div style={{ width: '100%', height: '100vh', background: '#111' }}>
+        <div style={{ width: '100%', height: '100vh', background: '#111', position: 'relative' }}>
             <Canvas shadows>
                 <PerspectiveCamera makeDefault position={[25, 12, 25]} fov={50} />
                 <OrbitControls makeDefault target={[0, 6, 0]} />
@@ -29,6 +32,9 @@ export const Viewport = () => {
                     <Tree />
                 </Suspense>
             </Canvas>
+            <PrintReportPanel />
+            <GrowthTimeline />
+            <CrownProfileEditor />
         </div>
     );
 };
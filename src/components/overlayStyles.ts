@@ -0,0 +1,19 @@
+import type { CSSProperties } from 'react';
+
+// Look of the panels drawn over the viewport; each adds its own position
+export const overlayPanelStyle: CSSProperties = {
+    position: 'absolute',
+    padding: '10px 14px',
+    background: 'rgba(24, 28, 32, 0.9)',
+    borderRadius: 6,
+    fontSize: 12,
+    lineHeight: 1.6,
+    fontFamily: 'monospace',
+};
+
+export const overlayButtonStyle: CSSProperties = {
+    marginRight: 6,
+    padding: '2px 8px',
+    fontSize: 12,
+    fontFamily: 'monospace',
+};
@@ -0,0 +1,199 @@
+/**
+ * Batch Export
+ *
+ * Builds many seeded variants of the current tree for site models and packs
+ * them into one ZIP with a CSV manifest. Each variant gets its own seed and
+ * a small jitter of height and crown width, is generated by the active
+ * engine on the main thread and turned into a solid by the worker
+ * (BUILD_SOLID, which leaves the viewport's tree untouched).
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import type { TreeSettings } from '../store/useTreeStore';
+import { getEngine } from './botanisten/engines';
+import { heightFraction } from './botanisten/growth';
+import { solidOptionsFromSettings } from './solidOptions';
+import { EXPORT_FORMATS, exportObjects, meshesTo3MF, type ExportMesh, type ExportObject } from './exporters';
+
+export type HeightDistribution = 'uniform' | 'normal';
+export type BatchPackaging = 'files' | '3mf';
+
+export interface BatchParams {
+    count: number;
+    seedStart: number;                      // Seeds run seedStart .. seedStart + count - 1
+    heightSpread: number;                   // Max relative height deviation, e.g. 0.15 = ±15%
+    heightDistribution: HeightDistribution;
+    crownJitter: number;                    // Max relative crown width deviation
+    packaging: BatchPackaging;              // One file per tree, or one 3MF with all trees
+}
+
+export interface BatchVariant {
+    name: string;
+    seed: number;
+    treeHeight: number;
+    crownWidth: number;
+}
+
+// Gap between trees on the 3MF build plate (mm)
+const PLATE_GAP = 5;
+// Longest wait for the worker to build one solid (ms)
+const SOLID_TIMEOUT = 180000;
+
+/**
+ * Pick seed, height and crown width for every variant.
+ * The jitter is seeded from seedStart so the same batch can be rebuilt.
+ */
+export function planBatch(settings: TreeSettings, params: BatchParams): BatchVariant[] {
+    let state = params.seedStart;
+    const random = () => {
+        state = (state * 1103515245 + 12345) & 0x7fffffff;
+        return state / 0x7fffffff;
+    };
+
+    // Deviation in [-1, 1], normal variants clamped at two standard deviations
+    const deviation = () => {
+        if (params.heightDistribution === 'uniform') return random() * 2 - 1;
+        const gaussian = Math.sqrt(-2 * Math.log(Math.max(random(), 1e-9))) * Math.cos(2 * Math.PI * random());
+        return Math.max(-1, Math.min(1, gaussian / 2));
+    };
+
+    const digits = String(params.count).length;
+    const variants: BatchVariant[] = [];
+
+    for (let i = 0; i < params.count; i++) {
+        const seed = params.seedStart + i;
+        variants.push({
+            name: `${settings.treeSpecies}_${String(i + 1).padStart(digits, '0')}_seed${seed}`,
+            seed,
+            treeHeight: settings.treeHeight * (1 + deviation() * params.heightSpread),
+            crownWidth: settings.crownWidth * (1 + (random() * 2 - 1) * params.crownJitter),
+        });
+    }
+    return variants;
+}
+
+/**
+ * Ask the worker for the solid of one variant, scaled for print. Rejects
+ * if the worker fails or has not answered within SOLID_TIMEOUT.
+ */
+export const requestSolidMesh = (worker: Worker, id: number | string, payload: object): Promise<ExportMesh> =>
+    new Promise((resolve, reject) => {
+        const finish = () => {
+            clearTimeout(timeout);
+            worker.removeEventListener('message', handleMessage);
+            worker.removeEventListener('error', handleError);
+        };
+        const handleMessage = (e: MessageEvent) => {
+            if (e.data.type !== 'SOLID_READY' || e.data.payload.id !== id) return;
+            finish();
+            if (e.data.payload.error) reject(new Error(e.data.payload.error));
+            else resolve(e.data.payload.mesh);
+        };
+        const handleError = (e: ErrorEvent) => {
+            finish();
+            reject(new Error(`Worker failed while building solid ${id}: ${e.message}`));
+        };
+        const timeout = setTimeout(() => {
+            finish();
+            reject(new Error(`Worker did not build solid ${id} within ${SOLID_TIMEOUT / 1000} s`));
+        }, SOLID_TIMEOUT);
+
+        worker.addEventListener('message', handleMessage);
+        worker.addEventListener('error', handleError);
+        worker.postMessage({ type: 'BUILD_SOLID', payload: { id, ...payload } });
+    });
+
+/**
+ * Generate all variants through the worker and return the ZIP archive
+ */
+export async function exportBatch(
+    worker: Worker,
+    settings: TreeSettings,
+    params: BatchParams,
+    onProgress?: (done: number, total: number) => void
+): Promise<ArrayBuffer> {
+    const engine = getEngine(settings.generatorEngine);
+    const variants = planBatch(settings, params);
+    const solidOptions = solidOptionsFromSettings(settings);
+
+    const objects: ExportObject[] = [];
+    for (const [index, variant] of variants.entries()) {
+        const { branches, foliage } = engine.generate({
+            ...settings,
+            treeHeight: variant.treeHeight,
+            crownWidth: variant.crownWidth,
+            seed: variant.seed,
+        });
+        const mesh = await requestSolidMesh(worker, index, { branches, foliage, ...solidOptions, modelScale: settings.modelScale });
+        objects.push({ name: variant.name, mesh });
+        onProgress?.(index + 1, variants.length);
+    }
+
+    const header = `Tradet tree ${settings.generatorEngine}`;
+    const files: Record<string, Uint8Array> = {};
+    let fileNames: string[];
+
+    if (params.packaging === '3mf') {
+        layOutOnPlate(objects);
+        files['trees.3mf'] = new Uint8Array(meshesTo3MF(objects, `${header} 1:${settings.modelScale}`));
+        fileNames = variants.map(() => 'trees.3mf');
+    } else {
+        const { extension } = EXPORT_FORMATS[settings.exportFormat];
+        fileNames = variants.map(variant => `${variant.name}.${extension}`);
+        objects.forEach((object, index) => {
+            files[fileNames[index]] = new Uint8Array(exportObjects([object], settings.exportFormat, `${header} seed ${variants[index].seed} 1:${settings.modelScale}`));
+        });
+    }
+
+    files['manifest.csv'] = strToU8(buildManifest(variants, fileNames, settings));
+    const zip = zipSync(files);
+    return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer;
+}
+
+/**
+ * One CSV row per tree with the seed and parameters it was built from
+ */
+export function buildManifest(variants: BatchVariant[], fileNames: string[], settings: TreeSettings): string {
+    const rows = [['file', 'object', 'seed', 'engine', 'species', 'age_years', 'height_m', 'crown_width', 'print_height_mm', 'scale']];
+    // Variant heights are grown heights; a younger tree is printed at the height of its age
+    const ageFraction = heightFraction(settings.treeAgeYears);
+    variants.forEach((variant, index) => {
+        rows.push([
+            fileNames[index],
+            variant.name,
+            String(variant.seed),
+            settings.generatorEngine,
+            settings.treeSpecies,
+            String(settings.treeAgeYears),
+            (variant.treeHeight * ageFraction).toFixed(2),
+            variant.crownWidth.toFixed(3),
+            ((variant.treeHeight * ageFraction * 1000) / settings.modelScale).toFixed(1),
+            `1:${settings.modelScale}`,
+        ]);
+    });
+    return rows.map(row => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Place the trees in a square grid on the build plate, spaced by the
+ * widest footprint so neighbouring crowns never overlap
+ */
+function layOutOnPlate(objects: ExportObject[]): void {
+    let footprint = 0;
+    for (const { mesh } of objects) {
+        let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+        for (let i = 0; i < mesh.vertProperties.length; i += mesh.numProp) {
+            minX = Math.min(minX, mesh.vertProperties[i]);
+            maxX = Math.max(maxX, mesh.vertProperties[i]);
+            minZ = Math.min(minZ, mesh.vertProperties[i + 2]);
+            maxZ = Math.max(maxZ, mesh.vertProperties[i + 2]);
+        }
+        footprint = Math.max(footprint, (maxX - minX) * 1000, (maxZ - minZ) * 1000);
+    }
+
+    const pitch = footprint + PLATE_GAP;
+    const columns = Math.ceil(Math.sqrt(objects.length));
+    objects.forEach((object, index) => {
+        object.offset = [(index % columns) * pitch, Math.floor(index / columns) * pitch];
+    });
+}
@@ -0,0 +1,166 @@
+/**
+ * Branch Graph
+ *
+ * Shared tree topology produced by every generator: one node per branch
+ * point with a link to its parent, so tools can walk the tree (pruning,
+ * pipe-model radii, per-branch selection) instead of guessing connections
+ * from matching segment end points.
+ *
+ * Each non-root node stands for the segment from its parent to itself.
+ * A loop that grows back into the tree ends in a node at the same position
+ * as the node it joins. The worker and the print tools take flat segments;
+ * convert with graphToSegments().
+ */
+
+export interface BranchSegment {
+    start: [number, number, number];
+    end: [number, number, number];
+    r1: number;
+    r2: number;
+}
+
+export interface BranchNode {
+    id: number;                          // Index in BranchGraph.nodes
+    parentId: number | null;             // null for the trunk base and free-standing parts
+    position: [number, number, number];
+    radius: number;                      // Radius at this node
+    baseRadius?: number;                 // Radius at the parent end, when it differs from the parent's radius
+    depth: number;                       // Segments from the root
+    order: number;                       // 0 = trunk/leader, +1 for every lateral branch
+}
+
+export interface BranchGraph {
+    nodes: BranchNode[];                 // Parents always come before their children
+}
+
+export interface AddNodeOptions {
+    baseRadius?: number;
+    lateral?: boolean;  // Starts a side branch (order + 1) instead of continuing the parent's axis
+    order?: number;     // Order of a root, e.g. 1 for free-standing crown parts
+}
+
+export const createBranchGraph = (): BranchGraph => ({ nodes: [] });
+
+/**
+ * Append a node and return its id. Pass parentId null for a root.
+ */
+export function addBranchNode(
+    graph: BranchGraph,
+    parentId: number | null,
+    position: [number, number, number],
+    radius: number,
+    options: AddNodeOptions = {}
+): number {
+    const parent = parentId !== null ? graph.nodes[parentId] : null;
+    const id = graph.nodes.length;
+    const node: BranchNode = {
+        id,
+        parentId,
+        position,
+        radius,
+        depth: parent ? parent.depth + 1 : 0,
+        order: parent ? parent.order + (options.lateral ? 1 : 0) : options.order ?? 0,
+    };
+    if (parent && options.baseRadius !== undefined && options.baseRadius !== parent.radius) {
+        node.baseRadius = options.baseRadius;
+    }
+    graph.nodes.push(node);
+    return id;
+}
+
+/**
+ * Child ids of every node, indexed by node id
+ */
+export function getChildren(graph: BranchGraph): number[][] {
+    const children = graph.nodes.map((): number[] => []);
+    for (const node of graph.nodes) {
+        if (node.parentId !== null) children[node.parentId].push(node.id);
+    }
+    return children;
+}
+
+/**
+ * Flat segment list for meshing and analysis, in node order
+ */
+export function graphToSegments(graph: BranchGraph): BranchSegment[] {
+    const segments: BranchSegment[] = [];
+    for (const node of graph.nodes) {
+        if (node.parentId === null) continue;
+        const parent = graph.nodes[node.parentId];
+        segments.push({
+            start: parent.position,
+            end: node.position,
+            r1: node.baseRadius ?? parent.radius,
+            r2: node.radius,
+        });
+    }
+    return segments;
+}
+
+/**
+ * Rebuild a graph from segments, e.g. attractor curves or older data.
+ * A segment hangs from the first node at its start point (to 0.01 mm in
+ * model units), otherwise it starts a new root. Orders are guessed with
+ * assignBranchOrders().
+ */
+export function segmentsToGraph(segments: BranchSegment[]): BranchGraph {
+    const graph = createBranchGraph();
+    const lookup = new Map<string, number>();
+    const keyOf = (position: [number, number, number]) => position.map(value => Math.round(value * 1e5)).join(',');
+
+    for (const segment of segments) {
+        let parentId = lookup.get(keyOf(segment.start));
+        if (parentId === undefined) {
+            parentId = addBranchNode(graph, null, segment.start, segment.r1);
+            lookup.set(keyOf(segment.start), parentId);
+        }
+        const id = addBranchNode(graph, parentId, segment.end, segment.r2, { baseRadius: segment.r1 });
+        const endKey = keyOf(segment.end);
+        if (!lookup.has(endKey)) lookup.set(endKey, id);
+    }
+
+    assignBranchOrders(graph);
+    return graph;
+}
+
+/**
+ * Derive branching orders from radii: at every fork the thickest child
+ * continues the parent's axis and the others become lateral branches.
+ * For generators that do not track which child is the continuation.
+ */
+export function assignBranchOrders(graph: BranchGraph): void {
+    const children = getChildren(graph);
+    for (const node of graph.nodes) {
+        if (node.parentId === null) continue;
+        const parent = graph.nodes[node.parentId];
+        const siblings = children[parent.id];
+        const main = siblings.reduce((best, id) => graph.nodes[id].radius > graph.nodes[best].radius ? id : best, siblings[0]);
+        node.order = parent.order + (node.id === main ? 0 : 1);
+    }
+}
+
+/**
+ * Pipe model (Leonardo's rule): keep the tip radii and rebuild every other
+ * radius from the tips down so that r_parent^e = Σ r_child^e, then clamp to
+ * the printable minimum. Trunks get the thickness their crown needs instead
+ * of a fixed decay per level. Lateral branches start with their own radius,
+ * the continuing axis tapers from the parent's.
+ */
+export function applyPipeModel(graph: BranchGraph, exponent: number, minRadius: number): void {
+    const children = getChildren(graph);
+
+    // Children always follow their parents, so walking backwards visits the tips first
+    for (let i = graph.nodes.length - 1; i >= 0; i--) {
+        if (children[i].length === 0) continue;
+        const sum = children[i].reduce((total, id) => total + Math.pow(graph.nodes[id].radius, exponent), 0);
+        graph.nodes[i].radius = Math.pow(sum, 1 / exponent);
+    }
+
+    for (const node of graph.nodes) {
+        node.radius = Math.max(node.radius, minRadius);
+        delete node.baseRadius;
+        if (node.parentId !== null && node.order > graph.nodes[node.parentId].order) {
+            node.baseRadius = node.radius;
+        }
+    }
+}
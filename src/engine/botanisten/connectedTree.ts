@@ -11,18 +11,13 @@
  */
 
 import { Vector3 } from 'three';
-
-interface BranchSegment {
-    start: [number, number, number];
-    end: [number, number, number];
-    r1: number;
-    r2: number;
-}
+import { addBranchNode, createBranchGraph, type BranchGraph } from './branchGraph';
 
 export class ConnectedTreeGenerator {
-    private segments: BranchSegment[] = [];
+    private graph: BranchGraph = createBranchGraph();
     private seed: number = 42;
     private branchEnds: Vector3[] = []; // Track all branch endpoints
+    private branchEndNodes: number[] = []; // Graph node of each branch end
 
     constructor() { }
 
@@ -43,9 +38,10 @@ export class ConnectedTreeGenerator {
         branchThickness: number;
         crownDensity: number;
         seed?: number;
-    }): BranchSegment[] {
-        this.segments = [];
+    }): BranchGraph {
+        this.graph = createBranchGraph();
         this.branchEnds = [];
+        this.branchEndNodes = [];
         this.seed = params.seed ?? 42;
 
         const {
@@ -61,22 +57,24 @@ export class ConnectedTreeGenerator {
         console.log('[ConnectedTree] Trunk: (0,0,0) -> (0,' + trunkHeight + ',0)');
         console.log('[ConnectedTree] trunkRadius:', trunkRadius, 'branchThickness:', branchThickness);
 
-        this.segments.push({
-            start: [0, 0, 0],
-            end: [trunkTop.x, trunkTop.y, trunkTop.z],
-            r1: Math.max(trunkRadius, branchThickness * 2),
-            r2: Math.max(trunkRadius * 0.7, branchThickness * 1.5),
-        });
+        const trunkBase = addBranchNode(this.graph, null, [0, 0, 0], Math.max(trunkRadius, branchThickness * 2));
+        const trunkTopNode = addBranchNode(
+            this.graph,
+            trunkBase,
+            [trunkTop.x, trunkTop.y, trunkTop.z],
+            Math.max(trunkRadius * 0.7, branchThickness * 1.5)
+        );
 
         // Mark trunk top as the starting point for branches
         this.branchEnds.push(trunkTop.clone());
+        this.branchEndNodes.push(trunkTopNode);
 
         // 2. Generate crown with connected branches
         this.generateConnectedCrown(trunkTop, params.crownRadius, params.crownHeight, branchThickness, crownDensity);
 
-        console.log('[ConnectedTree] Generated', this.segments.length, 'connected segments');
+        console.log('[ConnectedTree] Generated', this.graph.nodes.length, 'connected nodes');
         console.log('[ConnectedTree] First branch end:', this.branchEnds[0]?.x, this.branchEnds[0]?.y, this.branchEnds[0]?.z);
-        return this.segments;
+        return this.graph;
     }
 
     /**
@@ -130,19 +128,18 @@ export class ConnectedTreeGenerator {
             const branchThickness = thickness * (1 - progress * 0.3);
 
             // Add the branch segment
-            this.segments.push({
-                start: [parentPoint.x, parentPoint.y, parentPoint.z],
-                end: [endPoint.x, endPoint.y, endPoint.z],
-                r1: branchThickness,
-                r2: branchThickness * 0.9,
+            const nodeId = addBranchNode(this.graph, this.branchEndNodes[parentIndex], [endPoint.x, endPoint.y, endPoint.z], branchThickness * 0.9, {
+                baseRadius: branchThickness,
+                lateral: true,
             });
 
             // Add this endpoint as a potential parent for future branches
             this.branchEnds.push(endPoint);
+            this.branchEndNodes.push(nodeId);
 
             // Occasionally create loops by connecting to nearby branch ends
             if (this.random() < 0.15 && i > 10) {
-                this.tryCreateLoop(endPoint, thickness * 0.8);
+                this.tryCreateLoop(nodeId, endPoint, thickness * 0.8);
             }
         }
     }
@@ -150,7 +147,7 @@ export class ConnectedTreeGenerator {
     /**
      * Try to create a loop by connecting to a nearby branch end
      */
-    private tryCreateLoop(from: Vector3, thickness: number): void {
+    private tryCreateLoop(fromNode: number, from: Vector3, thickness: number): void {
         const maxDistance = 2.0;
 
         // Find nearby branch ends
@@ -165,12 +162,10 @@ export class ConnectedTreeGenerator {
         const targetIndex = Math.floor(this.random() * nearby.length);
         const target = nearby[targetIndex];
 
-        // Create the connecting segment
-        this.segments.push({
-            start: [from.x, from.y, from.z],
-            end: [target.x, target.y, target.z],
-            r1: thickness,
-            r2: thickness,
+        // Create the connecting segment, ending on a copy of the target node
+        addBranchNode(this.graph, fromNode, [target.x, target.y, target.z], thickness, {
+            baseRadius: thickness,
+            lateral: true,
         });
     }
 }
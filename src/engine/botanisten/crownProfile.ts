@@ -0,0 +1,133 @@
+/**
+ * Crown Profiles
+ *
+ * The silhouette of a crown as a curve: crown radius (relative to the
+ * widest crown of the species) against height in the crown, 0 at the crown
+ * base and 1 at the top. The curve runs smoothly through its points
+ * (Catmull-Rom). An optional ring of eight factors makes the crown
+ * asymmetric: one per compass direction, starting at north (-Z) and going
+ * clockwise seen from above, blended smoothly in between.
+ *
+ * The built-in crown shapes are profiles too, so the species' shape is the
+ * starting point for drawing one's own. A species (or a single tree) with
+ * its own profile also uses it as the crown envelope that clips branches.
+ */
+
+export type CrownShape = 'oval' | 'dome' | 'pyramidal' | 'spreading' | 'umbrella';
+
+export interface CrownProfile {
+    points: [number, number][];  // [height 0-1, radius], by increasing height
+    azimuth?: number[];          // Radius factors N, NE, E, SE, S, SW, W, NW
+}
+
+export const AZIMUTH_SECTORS = 8;
+export const MAX_PROFILE_POINTS = 32;
+export const MAX_PROFILE_RADIUS = 2;
+export const AZIMUTH_RANGE: [number, number] = [0.2, 2];
+
+const OVAL_POINTS: [number, number][] = [
+    [0, 0], [0.125, 0.383], [0.25, 0.707], [0.375, 0.924], [0.5, 1], [0.625, 0.924], [0.75, 0.707], [0.875, 0.383], [1, 0],
+];
+
+export const CROWN_SHAPE_PROFILES: Record<CrownShape, CrownProfile> = {
+    // Ellipsoid-like, widest in the middle
+    oval: { points: OVAL_POINTS },
+    // Rounded dome, wider in the middle-upper region
+    dome: {
+        points: [[0, 0.199], [0.125, 0.492], [0.25, 0.737], [0.375, 0.909], [0.5, 0.994], [0.625, 0.98], [0.75, 0.871], [0.875, 0.676], [1, 0.417]],
+    },
+    // Widest at the base, tapering to a point (spruce)
+    pyramidal: {
+        points: [[0, 1], [1, 0.1]],
+    },
+    spreading: { points: OVAL_POINTS },
+    // Narrow at the bottom, wide at the top (Scots pine)
+    umbrella: {
+        points: [[0, 0.2], [1, 1]],
+    },
+};
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+    0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+/**
+ * Relative crown radius at a height in the crown (0-1)
+ */
+export function profileRadius(profile: CrownProfile, height: number): number {
+    const { points } = profile;
+    if (height <= points[0][0]) return points[0][1];
+    const last = points.length - 1;
+    if (height >= points[last][0]) return points[last][1];
+
+    let i = 0;
+    while (points[i + 1][0] < height) i++;
+    const t = (height - points[i][0]) / (points[i + 1][0] - points[i][0]);
+    const radius = catmullRom(
+        points[Math.max(0, i - 1)][1],
+        points[i][1],
+        points[i + 1][1],
+        points[Math.min(last, i + 2)][1],
+        t
+    );
+    return Math.max(0, radius);
+}
+
+/**
+ * Compass direction of a horizontal offset, in radians: 0 = north (-Z), π/2 = east (+X)
+ */
+export function compassAngle(dx: number, dz: number): number {
+    return Math.atan2(dx, -dz);
+}
+
+/**
+ * Radius factor of the crown towards a compass direction (radians)
+ */
+export function azimuthFactor(profile: CrownProfile, angle: number): number {
+    const factors = profile.azimuth;
+    if (!factors) return 1;
+
+    const n = factors.length;
+    const position = ((angle / (Math.PI * 2)) * n % n + n) % n;
+    const i = Math.floor(position);
+    const at = (k: number) => factors[((k % n) + n) % n];
+    return Math.max(0, catmullRom(at(i - 1), at(i), at(i + 1), at(i + 2), position - i));
+}
+
+/**
+ * Largest relative radius of a profile in any direction
+ */
+export function profileMaxRadius(profile: CrownProfile): number {
+    const radius = Math.max(...profile.points.map(([, r]) => r));
+    const factor = profile.azimuth ? Math.max(...profile.azimuth) : 1;
+    return radius * factor;
+}
+
+/**
+ * Check a profile read from a file, throwing an error that says what is wrong
+ */
+export function validateCrownProfile(raw: unknown): CrownProfile {
+    if (!raw || typeof raw !== 'object') throw new Error('crown profile is not an object');
+    const { points, azimuth } = raw as Record<string, unknown>;
+
+    if (!Array.isArray(points) || points.length < 2 || points.length > MAX_PROFILE_POINTS) {
+        throw new Error(`crown profile needs 2-${MAX_PROFILE_POINTS} points`);
+    }
+    let previousHeight = -Infinity;
+    for (const point of points) {
+        const valid = Array.isArray(point) && point.length === 2 &&
+            point.every(value => typeof value === 'number' && isFinite(value)) &&
+            point[0] >= 0 && point[0] <= 1 && point[0] > previousHeight &&
+            point[1] >= 0 && point[1] <= MAX_PROFILE_RADIUS;
+        if (!valid) throw new Error(`invalid crown profile point ${JSON.stringify(point)}`);
+        previousHeight = point[0];
+    }
+
+    if (azimuth === undefined) return { points: points as [number, number][] };
+
+    const [min, max] = AZIMUTH_RANGE;
+    const validAzimuth = Array.isArray(azimuth) && azimuth.length === AZIMUTH_SECTORS &&
+        azimuth.every(value => typeof value === 'number' && value >= min && value <= max);
+    if (!validAzimuth) throw new Error(`crown profile azimuth needs ${AZIMUTH_SECTORS} factors from ${min} to ${max}`);
+
+    return { points: points as [number, number][], azimuth: azimuth as number[] };
+}
@@ -0,0 +1,268 @@
+/**
+ * Generator Engine Registry
+ *
+ * Every branch generator is wrapped as an engine that turns the current
+ * TreeSettings into a branch graph (and optional foliage clusters).
+ * Tree.tsx only talks to this registry, so a new engine is added by
+ * registering it here - no changes to the component are needed.
+ */
+
+import type { TreeSettings } from '../../store/useTreeStore';
+import { enforcePrintability, minModelRadius, policyFromSettings } from '../printability';
+import type { FoliageCluster } from './treeStyles';
+import { RealisticTreeGenerator, type RealisticTreeParams } from './realisticTree';
+import { generateTreeGroup } from './treeGroup';
+import { applyPipeModel, graphToSegments, type BranchGraph, type BranchSegment } from './branchGraph';
+import { OrganicTreeGenerator } from './organicTree';
+import { ConnectedTreeGenerator } from './connectedTree';
+import { Botanist } from './lsystem';
+import { SpaceColonizationGenerator } from './spaceColonization';
+
+export interface GeneratedTree {
+    graph: BranchGraph;
+    branches: BranchSegment[];  // graphToSegments(graph), for the worker
+    foliage: FoliageCluster[];
+}
+
+export interface TreeGeneratorEngine {
+    id: string;
+    label: string;                          // Shown in the engine selector
+    settingKeys: (keyof TreeSettings)[];    // Settings that trigger regeneration (besides the seed)
+    generate(settings: TreeSettings): GeneratedTree;
+}
+
+const engines = new Map<string, TreeGeneratorEngine>();
+
+export function registerEngine(engine: TreeGeneratorEngine): void {
+    engines.set(engine.id, engine);
+}
+
+/**
+ * Get engine by id, falling back to the realistic generator
+ */
+export function getEngine(id: string): TreeGeneratorEngine {
+    return engines.get(id) ?? engines.get('realistic')!;
+}
+
+/**
+ * Get all registered engines in registration order
+ */
+export function listEngines(): TreeGeneratorEngine[] {
+    return Array.from(engines.values());
+}
+
+// Every engine's output goes through the printability policy
+const fromGraph = (graph: BranchGraph, settings: TreeSettings, foliage: FoliageCluster[] = []): GeneratedTree => {
+    const printable = enforcePrintability(graph, policyFromSettings(settings));
+    return { graph: printable, branches: graphToSegments(printable), foliage };
+};
+
+// Shared crown dimensions for the generators that take explicit sizes
+const crownDimensions = (settings: TreeSettings) => {
+    const trunkHeight = Math.min(settings.trunkHeight, settings.treeHeight * 0.8);
+    const crownHeight = settings.treeHeight - trunkHeight;
+    return {
+        trunkRadius: settings.treeHeight * 0.02 * settings.trunkThickness,
+        trunkHeight,
+        crownRadius: crownHeight * 0.4 * settings.crownWidth,
+        crownHeight,
+    };
+};
+
+// Finest branch radius the generators should aim for: the printability
+// policy's minimum, or the user's minimum branch radius if that is larger
+const effectiveMinRadius = (settings: TreeSettings) => {
+    const minPrintRadius = minModelRadius(policyFromSettings(settings));
+    const minRadius = Math.max(settings.minPrintableRadius, minPrintRadius);
+
+    console.log('[Engines] Min printable radius:', minPrintRadius.toFixed(3), 'm, effective:', minRadius.toFixed(3), 'm');
+    return minRadius;
+};
+
+// Optional Leonardo's rule pass for the generators that taper by fixed factors
+const withPipeModel = (graph: BranchGraph, settings: TreeSettings, minRadius: number): BranchGraph => {
+    if (settings.pipeModel) applyPipeModel(graph, settings.thicknessDecay, minRadius);
+    return graph;
+};
+
+// --- Built-in engines ---
+
+const realisticGenerator = new RealisticTreeGenerator();
+
+// Realistic generator input from the settings, shared with tree groups
+const realisticParams = (settings: TreeSettings, minRadius: number): RealisticTreeParams => ({
+    treeHeight: settings.treeHeight,
+    minRadius,
+    seed: settings.seed,
+    preset: settings.treeSpecies,
+    ageYears: settings.treeAgeYears,
+    crownWidth: settings.crownWidth,
+    trunkHeight: settings.trunkHeight,
+    crownDensity: settings.crownDensity,
+    trunkThickness: settings.trunkThickness,
+    windStrength: settings.windStrength,
+    windDirection: settings.windDirection,
+    habit: settings.growthHabit === 'species' ? undefined : settings.growthHabit,
+    stemCount: settings.stemCount,
+    crownProfile: settings.crownProfile ?? undefined,
+});
+
+const realisticFoliage = (settings: TreeSettings) => settings.showFoliage
+    ? {
+        treeHeight: settings.treeHeight,
+        treeType: settings.treeType,
+        density: settings.foliageDensity,
+        size: settings.foliageSize,
+        seed: settings.seed,
+    }
+    : undefined;
+
+registerEngine({
+    id: 'realistic',
+    label: 'Realistisk (art)',
+    settingKeys: [
+        'treeSpecies', 'treeAgeYears', 'treeHeight', 'crownWidth', 'trunkHeight',
+        'crownDensity', 'trunkThickness', 'minPrintableRadius', 'modelScale',
+        'showFoliage', 'foliageDensity', 'foliageSize', 'treeType',
+        'pipeModel', 'thicknessDecay', 'windStrength', 'windDirection',
+        'growthHabit', 'stemCount', 'crownProfile',
+    ],
+    generate: (settings) => {
+        const minRadius = effectiveMinRadius(settings);
+        const graph = realisticGenerator.generateTree(realisticParams(settings, minRadius));
+
+        const foliageParams = realisticFoliage(settings);
+        const foliage = foliageParams ? realisticGenerator.generateFoliage(foliageParams) : [];
+
+        return fromGraph(withPipeModel(graph, settings, minRadius), settings, foliage);
+    },
+});
+
+/**
+ * Realistic trees standing together on a site, each with its own settings
+ * (species, height, seed ...) and position. Crowns make room for each
+ * other (see treeGroup.ts); the output is in each tree's own coordinates.
+ */
+export function generateRealisticGroup(
+    sites: { position: [number, number]; settings: TreeSettings }[]
+): GeneratedTree[] {
+    const minRadii = sites.map(site => effectiveMinRadius(site.settings));
+    const group = generateTreeGroup(sites.map((site, index) => ({
+        position: site.position,
+        params: realisticParams(site.settings, minRadii[index]),
+        foliage: realisticFoliage(site.settings),
+    })), realisticGenerator);
+
+    return group.map((tree, index) => {
+        const { settings } = sites[index];
+        return fromGraph(withPipeModel(tree.graph, settings, minRadii[index]), settings, tree.foliage);
+    });
+}
+
+const colonizationGenerator = new SpaceColonizationGenerator();
+
+registerEngine({
+    id: 'colonization',
+    label: 'Rymdkolonisering',
+    settingKeys: [
+        'treeSpecies', 'treeHeight', 'crownWidth', 'trunkHeight', 'crownDensity',
+        'trunkThickness', 'thicknessDecay', 'minPrintableRadius', 'modelScale',
+        'colonizationInfluence', 'colonizationKillDistance', 'colonizationStep', 'crownProfile',
+    ],
+    generate: (settings) => fromGraph(colonizationGenerator.generateTree({
+        treeHeight: settings.treeHeight,
+        minRadius: effectiveMinRadius(settings),
+        seed: settings.seed,
+        preset: settings.treeSpecies,
+        crownWidth: settings.crownWidth,
+        trunkHeight: settings.trunkHeight,
+        crownProfile: settings.crownProfile ?? undefined,
+        attractionPoints: Math.round(200 + settings.crownDensity * 100),
+        influenceRadius: settings.colonizationInfluence,
+        killDistance: settings.colonizationKillDistance,
+        stepSize: settings.colonizationStep,
+        trunkThickness: settings.trunkThickness,
+        radiusExponent: settings.thicknessDecay,
+    }), settings),
+});
+
+const organicGenerator = new OrganicTreeGenerator();
+
+registerEngine({
+    id: 'organic',
+    label: 'Organisk (loopar)',
+    settingKeys: [
+        'treeHeight', 'trunkHeight', 'crownWidth', 'crownDensity', 'trunkThickness', 'organicBranchThickness',
+        'pipeModel', 'thicknessDecay', 'minPrintableRadius', 'modelScale',
+    ],
+    generate: (settings) => fromGraph(withPipeModel(organicGenerator.generateTree({
+        ...crownDimensions(settings),
+        branchThickness: settings.organicBranchThickness,
+        crownDensity: settings.crownDensity / 10,
+        seed: settings.seed,
+    }), settings, effectiveMinRadius(settings)), settings),
+});
+
+const connectedGenerator = new ConnectedTreeGenerator();
+
+registerEngine({
+    id: 'connected',
+    label: 'Sammanhängande',
+    settingKeys: [
+        'treeHeight', 'trunkHeight', 'crownWidth', 'crownDensity', 'trunkThickness', 'connectedBranchThickness',
+        'pipeModel', 'thicknessDecay', 'minPrintableRadius', 'modelScale',
+    ],
+    generate: (settings) => fromGraph(withPipeModel(connectedGenerator.generateTree({
+        ...crownDimensions(settings),
+        branchThickness: settings.connectedBranchThickness,
+        crownDensity: settings.crownDensity / 10,
+        seed: settings.seed,
+    }), settings, effectiveMinRadius(settings)), settings),
+});
+
+const botanist = new Botanist();
+
+registerEngine({
+    id: 'lsystem',
+    label: 'L-system (grammatik)',
+    settingKeys: [
+        'lsystemAxiom', 'lsystemRules', 'lsystemIterations', 'lsystemAngle', 'treeHeight',
+        'initialRadius', 'thicknessDecay', 'minPrintableRadius', 'gravitropism',
+    ],
+    generate: (settings) => {
+        const str = botanist.generateString(
+            settings.lsystemAxiom,
+            settings.lsystemIterations,
+            settings.lsystemRules,
+            settings.seed
+        );
+        return fromGraph(botanist.interpret(str, {
+            angle: settings.lsystemAngle,
+            treeHeight: settings.treeHeight,
+            trunkRadius: settings.initialRadius * 0.1,
+            minRadius: effectiveMinRadius(settings),
+            radiusExponent: settings.thicknessDecay,
+            gravitropism: settings.gravitropism,
+        }), settings);
+    },
+});
+
+registerEngine({
+    id: 'recursive',
+    label: 'Rekursiv (Botanist)',
+    settingKeys: [
+        'initialRadius', 'thicknessDecay', 'lengthDecay', 'minPrintableRadius',
+        'targetScale', 'gravitropism', 'branchingFactor', 'recursionDepth', 'pipeModel', 'modelScale',
+    ],
+    generate: (settings) => fromGraph(withPipeModel(botanist.generateTree(
+        settings.initialRadius * 0.1, // Same radius scale as the abstract tubes
+        settings.thicknessDecay,
+        settings.lengthDecay,
+        settings.minPrintableRadius,
+        settings.targetScale,
+        settings.gravitropism,
+        settings.branchingFactor,
+        settings.recursionDepth,
+        settings.seed
+    ), settings, effectiveMinRadius(settings)), settings),
+});
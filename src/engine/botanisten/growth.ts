@@ -0,0 +1,192 @@
+/**
+ * Growth Over Time
+ *
+ * A tree is generated once, as it stands when fully grown (GROWN_AGE); the
+ * tree at any other age is the part of that structure that had grown by
+ * then. Every node gets a birth time from 0 to 1: the trunk and leader grow
+ * upwards along the height curve, and each side branch grows out from the
+ * year the leader passed its base. Since the structure never depends on the
+ * age, a young tree is a sub-structure of every older tree with the same
+ * seed, and stepping through the years only ever adds wood.
+ */
+
+import { addBranchNode, createBranchGraph, type BranchGraph, type BranchNode } from './branchGraph';
+
+export const GROWN_AGE = 60;  // Years until the tree reaches its generated size
+export const MAX_AGE = 150;
+
+// Height growth (Chapman-Richards): slow start, fastest in the young tree, levelling off
+const HEIGHT_RATE = 0.04;
+const HEIGHT_SHAPE = 1.3;
+
+// Thickening goes on after the height growth has stopped
+const GIRTH_RATE = 0.025;
+
+// A side branch grows out over at most this share of the tree's growth
+const BRANCH_GROWTH_SPAN = 0.5;
+
+// Nursery trees are grown with a clear stem up to the crown base, which is
+// there after this share of the growth; the leader takes the rest
+const CLEAR_STEM_GROWTH = 0.1;
+
+// Foliage cluster size by age (years, scale), straight lines in between
+const FOLIAGE_SCALE: [number, number][] = [[0, 0.2], [15, 0.7], [GROWN_AGE, 1.0], [120, 1.2]];
+
+const chapmanRichards = (years: number, rate: number, shape: number) =>
+    Math.pow(1 - Math.exp(-rate * Math.max(0, years)), shape);
+
+/**
+ * Share of the grown height reached at an age, 1 from GROWN_AGE on
+ */
+export function heightFraction(years: number): number {
+    if (years >= GROWN_AGE) return 1;
+    return chapmanRichards(years, HEIGHT_RATE, HEIGHT_SHAPE) / chapmanRichards(GROWN_AGE, HEIGHT_RATE, HEIGHT_SHAPE);
+}
+
+/**
+ * Trunk and branch thickness relative to the grown tree, above 1 for old trees
+ */
+export function girthFraction(years: number): number {
+    return chapmanRichards(years, GIRTH_RATE, 1) / chapmanRichards(GROWN_AGE, GIRTH_RATE, 1);
+}
+
+/**
+ * Foliage cluster size relative to the grown tree
+ */
+export function foliageScale(years: number): number {
+    const last = FOLIAGE_SCALE[FOLIAGE_SCALE.length - 1];
+    if (years >= last[0]) return last[1];
+    const next = FOLIAGE_SCALE.findIndex(([age]) => age > years);
+    if (next <= 0) return FOLIAGE_SCALE[0][1];
+    const [age0, scale0] = FOLIAGE_SCALE[next - 1];
+    const [age1, scale1] = FOLIAGE_SCALE[next];
+    return scale0 + (scale1 - scale0) * (years - age0) / (age1 - age0);
+}
+
+const segmentLength = (graph: BranchGraph, node: BranchNode): number => {
+    if (node.parentId === null) return 0;
+    const [px, py, pz] = graph.nodes[node.parentId].position;
+    const [x, y, z] = node.position;
+    return Math.hypot(x - px, y - py, z - pz);
+};
+
+/**
+ * Birth time (0-1) of every node of a grown tree. The stem grows up to
+ * the lowest branch first, then the leader at an even pace. Side branches
+ * start when their base on the stem is born and grow out along their
+ * longest path, so a child is never born before its parent.
+ */
+export function birthTimes(graph: BranchGraph): number[] {
+    const { nodes } = graph;
+
+    // Longest path from each node out to a tip; parents come before children
+    const reach = new Array<number>(nodes.length).fill(0);
+    for (let i = nodes.length - 1; i >= 0; i--) {
+        const { parentId } = nodes[i];
+        if (parentId !== null) reach[parentId] = Math.max(reach[parentId], reach[i] + segmentLength(graph, nodes[i]));
+    }
+
+    // Top of the stem, and the crown base where the first side branch starts
+    let height = 1e-6;
+    let crownBase = Infinity;
+    for (const node of nodes) {
+        if (node.order === 0) height = Math.max(height, node.position[1]);
+        if (node.order > 0 && node.parentId !== null && nodes[node.parentId].order === 0) {
+            crownBase = Math.min(crownBase, nodes[node.parentId].position[1]);
+        }
+    }
+    crownBase = Math.min(crownBase, height * 0.9);
+    const stemBirth = (y: number) => y <= crownBase
+        ? CLEAR_STEM_GROWTH * y / Math.max(crownBase, 1e-6)
+        : CLEAR_STEM_GROWTH + (1 - CLEAR_STEM_GROWTH) * (y - crownBase) / (height - crownBase);
+
+    const birth = new Array<number>(nodes.length).fill(0);
+    const start = new Array<number>(nodes.length).fill(0);  // Birth of the side branch's base
+    const span = new Array<number>(nodes.length).fill(0);   // Longest path of the side branch
+    const along = new Array<number>(nodes.length).fill(0);  // Distance from the side branch's base
+
+    for (const node of nodes) {
+        const parentId = node.parentId;
+        if (parentId === null) continue;
+        const parent = nodes[parentId];
+        const length = segmentLength(graph, node);
+
+        if (node.order === 0) {
+            birth[node.id] = Math.min(1, Math.max(birth[parentId], stemBirth(node.position[1])));
+            continue;
+        }
+
+        if (parent.order === 0) {
+            start[node.id] = birth[parentId];
+            span[node.id] = length + reach[node.id];
+            along[node.id] = length;
+        } else {
+            start[node.id] = start[parentId];
+            span[node.id] = span[parentId];
+            along[node.id] = along[parentId] + length;
+        }
+
+        const growth = Math.min(1 - start[node.id], BRANCH_GROWTH_SPAN);
+        birth[node.id] = start[node.id] + growth * (span[node.id] > 0 ? along[node.id] / span[node.id] : 0);
+    }
+
+    return birth;
+}
+
+export interface GrowthStage {
+    graph: BranchGraph;
+    // Node of the young tree that the growth towards a node of the grown tree has reached
+    grownNode: (nodeId: number) => number | null;
+}
+
+/**
+ * The part of a grown tree that has grown at an age. Branches growing
+ * at that age end part-way along their segment; every radius is scaled
+ * by the thickness at that age.
+ */
+export function growToAge(graph: BranchGraph, years: number): GrowthStage {
+    const birth = birthTimes(graph);
+    const front = heightFraction(years);
+    const girth = girthFraction(years);
+    const young = createBranchGraph();
+
+    // Id in the young tree of every node that has started growing
+    const ids = new Array<number | null>(graph.nodes.length).fill(null);
+
+    for (const node of graph.nodes) {
+        const parentId = node.parentId;
+        const baseRadius = node.baseRadius !== undefined ? node.baseRadius * girth : undefined;
+
+        if (parentId === null) {
+            ids[node.id] = addBranchNode(young, null, node.position, node.radius * girth, { order: node.order });
+            continue;
+        }
+
+        // Only fully grown nodes carry growing children
+        const parentYoungId = ids[parentId];
+        if (parentYoungId === null || birth[parentId] > front) continue;
+
+        const parent = graph.nodes[parentId];
+        const options = { baseRadius, lateral: node.order > parent.order };
+
+        if (birth[node.id] <= front) {
+            ids[node.id] = addBranchNode(young, parentYoungId, node.position, node.radius * girth, options);
+        } else if (front > birth[parentId]) {
+            const t = (front - birth[parentId]) / (birth[node.id] - birth[parentId]);
+            const [px, py, pz] = parent.position;
+            const [x, y, z] = node.position;
+            ids[node.id] = addBranchNode(
+                young, parentYoungId, [px + (x - px) * t, py + (y - py) * t, pz + (z - pz) * t], node.radius * girth, options
+            );
+        }
+    }
+
+    const grownNode = (nodeId: number): number | null => {
+        for (let id: number | null = nodeId; id !== null; id = graph.nodes[id].parentId) {
+            if (ids[id] !== null) return ids[id];
+        }
+        return null;
+    };
+
+    return { graph: young, grownNode };
+}
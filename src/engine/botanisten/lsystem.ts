@@ -1,11 +1,5 @@
 import { Vector3, Quaternion } from 'three';
-
-interface BranchSegment {
-    start: [number, number, number];
-    end: [number, number, number];
-    r1: number;
-    r2: number;
-}
+import { addBranchNode, assignBranchOrders, createBranchGraph, type BranchGraph } from './branchGraph';
 
 /**
  * Branch class following user specification:
@@ -51,7 +45,7 @@ class Branch {
  * - Per-level taper and angle parameters
  */
 export class Botanist {
-    private segments: BranchSegment[] = [];
+    private graph: BranchGraph = createBranchGraph();
     private seed: number = 12345;
 
     constructor() { }
@@ -73,7 +67,7 @@ export class Botanist {
     }
 
     /**
-     * Main entry point - generates tree and returns branch segments
+     * Main entry point - generates tree and returns its branch graph
      */
     generateTree(
         initialRadius: number,
@@ -83,10 +77,11 @@ export class Botanist {
         targetScale: number,
         gravitropism: number,
         branchingFactor: number,
-        maxLevels: number
-    ): BranchSegment[] {
-        this.segments = [];
-        this.seed = 42; // Reset for reproducibility
+        maxLevels: number,
+        seed: number = 42
+    ): BranchGraph {
+        this.graph = createBranchGraph();
+        this.seed = seed; // Reset for reproducibility
 
         // Create trunk branch
         const trunk = new Branch(
@@ -100,6 +95,8 @@ export class Botanist {
         // Start recursive generation
         this.generateBranch(
             trunk,
+            null,
+            false,
             maxLevels,
             branchingFactor,
             lengthDecay,
@@ -109,8 +106,8 @@ export class Botanist {
             targetScale
         );
 
-        console.log('[Botanist] Total segments generated:', this.segments.length);
-        return this.segments;
+        console.log('[Botanist] Total nodes generated:', this.graph.nodes.length);
+        return this.graph;
     }
 
     /**
@@ -118,6 +115,8 @@ export class Botanist {
      */
     private generateBranch(
         branch: Branch,
+        parentId: number | null,
+        lateral: boolean,
         maxLevels: number,
         branchingFactor: number,
         lengthFactor: number,
@@ -141,11 +140,11 @@ export class Botanist {
         const endPoint = branch.getEndPoint();
         const taperEndRadius = branch.radius * 0.9; // Taper along branch
 
-        this.segments.push({
-            start: [branch.origin.x, branch.origin.y, branch.origin.z],
-            end: [endPoint.x, endPoint.y, endPoint.z],
-            r1: Math.max(branch.radius, minRadius / scale),
-            r2: Math.max(taperEndRadius, minRadius / scale)
+        const r1 = Math.max(branch.radius, minRadius / scale);
+        const startNode = parentId ?? addBranchNode(this.graph, null, [branch.origin.x, branch.origin.y, branch.origin.z], r1);
+        const nodeId = addBranchNode(this.graph, startNode, [endPoint.x, endPoint.y, endPoint.z], Math.max(taperEndRadius, minRadius / scale), {
+            baseRadius: r1,
+            lateral,
         });
 
         // Calculate number of children for this level
@@ -210,8 +209,11 @@ export class Botanist {
             );
 
             // Recursive call
+            // The first child continues the parent's axis
             this.generateBranch(
                 child,
+                nodeId,
+                i > 0,
                 maxLevels,
                 branchingFactor,
                 lengthFactor,
@@ -223,32 +225,457 @@ export class Botanist {
         }
     }
 
-    // Legacy compatibility method
-    generateString(_axiom: string, _depth: number, _branchingFactor: number = 2): string {
-        return 'LEGACY_NOT_USED';
+    /**
+     * Rewrite the axiom with the production rules for the given number of
+     * iterations. Rules are written one per line:
+     *
+     *   F -> F[+F]F[-F]F              (deterministic)
+     *   F : 0.33 -> F[+F]F            (stochastic, weight 0.33)
+     *   A(l,w) -> !(w)F(l)[&B(l*0.6)]  (parametric)
+     *   A(l) : l>1 -> F(l)[+A(l/2)]    (conditional, ABOP style)
+     *
+     * Stochastic choices use the seeded random, so the same seed always
+     * produces the same plant.
+     */
+    generateString(axiom: string, depth: number, rules: string = '', seed: number = 42): string {
+        this.seed = seed;
+        const ruleSet = parseRules(rules);
+        let modules = parseModules(axiom).map(evaluateModule({}));
+
+        for (let i = 0; i < depth; i++) {
+            const next: LModule[] = [];
+            for (const module of modules) {
+                const rule = this.pickRule(ruleSet, module);
+                if (!rule) {
+                    next.push(module);
+                    continue;
+                }
+                const env: Record<string, number> = {};
+                rule.formals.forEach((name, index) => { env[name] = module.params[index] ?? 0; });
+                for (const successor of rule.successor) {
+                    next.push(evaluateModule(env)(successor));
+                }
+            }
+            modules = next;
+
+            if (modules.length > MAX_MODULES) {
+                console.warn('[Botanist] L-system string exceeded', MAX_MODULES, 'modules, stopping at iteration', i + 1);
+                break;
+            }
+        }
+
+        console.log('[Botanist] L-system string has', modules.length, 'modules');
+        return modules.map(formatModule).join('');
+    }
+
+    /**
+     * Pick a matching production for a module, weighted by probability
+     */
+    private pickRule(ruleSet: LRule[], module: LModule): LRule | null {
+        const candidates = ruleSet.filter(rule => {
+            if (rule.symbol !== module.symbol || rule.formals.length > module.params.length) return false;
+            if (!rule.condition) return true;
+            const env: Record<string, number> = {};
+            rule.formals.forEach((name, index) => { env[name] = module.params[index]; });
+            return rule.condition(env);
+        });
+        if (candidates.length === 0) return null;
+        if (candidates.length === 1) return candidates[0];
+
+        const total = candidates.reduce((sum, rule) => sum + rule.probability, 0);
+        let pick = this.random() * total;
+        for (const rule of candidates) {
+            pick -= rule.probability;
+            if (pick <= 0) return rule;
+        }
+        return candidates[candidates.length - 1];
     }
 
-    // Legacy compatibility - main entry point from Tree.tsx
+    /**
+     * Turtle interpretation of an L-system string
+     *
+     * F/f: forward with/without drawing, +/-: turn, &/^: pitch,
+     * \ and /: roll, |: turn around, [ ]: push/pop, !: width.
+     * Radii follow Leonardo's rule from the tips down (Σr_child^e = r_parent^e),
+     * unless the grammar sets explicit widths with !(w).
+     */
     interpret(
-        _str: string,
-        initialRadius: number,
-        thicknessDecay: number,
-        lengthDecay: number,
-        minPrintableRadius: number,
-        targetScale: number,
-        gravitropism: number,
-        branchingFactor: number = 3,
-        maxDepth: number = 6
-    ): BranchSegment[] {
-        return this.generateTree(
-            initialRadius,
-            thicknessDecay,
-            lengthDecay,
-            minPrintableRadius,
-            targetScale,
-            gravitropism,
-            branchingFactor,
-            maxDepth
-        );
+        str: string,
+        params: {
+            angle: number;         // Default turn angle in degrees
+            treeHeight: number;    // Plant is scaled to this height
+            trunkRadius: number;   // Radius at the base of the plant
+            minRadius: number;     // Printable minimum
+            radiusExponent?: number; // Da Vinci exponent (2 = area preserving)
+            gravitropism?: number;   // Tropism towards the ground
+        }
+    ): BranchGraph {
+        this.graph = createBranchGraph();
+        const modules = parseModules(str).map(evaluateModule({}));
+        const defaultAngle = params.angle * (Math.PI / 180);
+        const exponent = params.radiusExponent ?? 2;
+        const gravity = params.gravitropism ?? 0;
+        const down = new Vector3(0, -1, 0);
+
+        const nodes: TurtleNode[] = [{ position: new Vector3(), parent: -1, width: null, widthFactor: 1 }];
+        let turtle: TurtleState = {
+            heading: new Vector3(0, 1, 0),
+            left: new Vector3(-1, 0, 0),
+            up: new Vector3(0, 0, 1),
+            node: 0,
+            position: new Vector3(),
+            width: null,
+            widthFactor: 1,
+            canExtend: false,
+        };
+        const stack: TurtleState[] = [];
+
+        const rotateFrame = (axis: Vector3, angle: number) => {
+            turtle.heading.applyAxisAngle(axis, angle).normalize();
+            turtle.left.applyAxisAngle(axis, angle).normalize();
+            turtle.up.applyAxisAngle(axis, angle).normalize();
+        };
+        const rotate = (axis: Vector3, angle: number) => {
+            rotateFrame(axis.clone(), angle);
+            turtle.canExtend = false;
+        };
+
+        for (const { symbol, params: args } of modules) {
+            const angle = args.length > 0 ? args[0] * (Math.PI / 180) : defaultAngle;
+
+            switch (symbol) {
+                case 'F':
+                case 'f': {
+                    const step = turtle.heading.clone().multiplyScalar(args[0] ?? 1);
+                    turtle.position.add(step);
+                    if (symbol === 'f') {
+                        // Moving without drawing starts a new, unconnected branch
+                        nodes.push({ position: turtle.position.clone(), parent: -1, width: turtle.width, widthFactor: turtle.widthFactor });
+                        turtle.node = nodes.length - 1;
+                        turtle.canExtend = false;
+                        break;
+                    }
+
+                    const current = nodes[turtle.node];
+                    const parent = current.parent >= 0 ? nodes[current.parent] : null;
+                    const isStraight = parent !== null &&
+                        current.position.clone().sub(parent.position).normalize().dot(turtle.heading) > MERGE_COS;
+                    // Consecutive straight F's become one segment
+                    if (turtle.canExtend && isStraight) {
+                        current.position.copy(turtle.position);
+                    } else {
+                        nodes.push({ position: turtle.position.clone(), parent: turtle.node, width: turtle.width, widthFactor: turtle.widthFactor });
+                        turtle.node = nodes.length - 1;
+                        turtle.canExtend = true;
+                    }
+
+                    // Tropism: bend heading towards the ground (ABOP eq. 2.3)
+                    if (gravity !== 0) {
+                        const axis = new Vector3().crossVectors(turtle.heading, down);
+                        const strength = axis.length();
+                        if (strength > 1e-6) rotateFrame(axis.normalize(), gravity * strength);
+                    }
+                    break;
+                }
+                case '+': rotate(turtle.up, angle); break;
+                case '-': rotate(turtle.up, -angle); break;
+                case '&': rotate(turtle.left, angle); break;
+                case '^': rotate(turtle.left, -angle); break;
+                case '\\': rotate(turtle.heading, angle); break;
+                case '/': rotate(turtle.heading, -angle); break;
+                case '|': rotate(turtle.up, Math.PI); break;
+                case '!':
+                    if (args.length > 0) {
+                        turtle.width = args[0];
+                    } else {
+                        turtle.widthFactor *= 0.7;
+                    }
+                    turtle.canExtend = false;
+                    break;
+                case '[':
+                    stack.push(cloneTurtle(turtle));
+                    turtle.canExtend = false;
+                    break;
+                case ']':
+                    if (stack.length > 0) turtle = stack.pop()!;
+                    turtle.canExtend = false;
+                    break;
+                default:
+                    // Non-graphical symbols (A, B, X, ...) are ignored
+                    break;
+            }
+        }
+
+        this.buildGraph(nodes, params.treeHeight, params.trunkRadius, params.minRadius, exponent);
+        console.log('[Botanist] Interpreted', modules.length, 'modules into', this.graph.nodes.length, 'nodes');
+        return this.graph;
+    }
+
+    /**
+     * Convert turtle nodes to a branch graph with Leonardo-rule radii
+     */
+    private buildGraph(
+        nodes: TurtleNode[],
+        treeHeight: number,
+        trunkRadius: number,
+        minRadius: number,
+        exponent: number
+    ): void {
+        // Accumulate pipe radii from tips to root (children always follow parents)
+        const pipe = new Array<number>(nodes.length).fill(0);
+        for (let i = nodes.length - 1; i >= 0; i--) {
+            const radius = pipe[i] > 0 ? Math.pow(pipe[i], 1 / exponent) : 1;
+            pipe[i] = radius;
+            const parent = nodes[i].parent;
+            if (parent >= 0) pipe[parent] += Math.pow(radius, exponent);
+        }
+
+        // Scale the plant to the requested height
+        let maxY = 0;
+        for (const node of nodes) maxY = Math.max(maxY, node.position.y);
+        const scale = maxY > 0 ? treeHeight / maxY : 1;
+
+        // Scale radii so the base of the plant gets the trunk radius
+        const rootChild = nodes.findIndex(node => node.parent === 0);
+        const base = rootChild >= 0 ? nodes[rootChild] : nodes[0];
+        const baseRadius = base.width ?? pipe[rootChild >= 0 ? rootChild : 0] * base.widthFactor;
+        const radiusScale = baseRadius > 0 ? trunkRadius / baseRadius : trunkRadius;
+
+        // Graph node of every turtle node; zero-length steps share their parent's node
+        const graphNode = new Array<number>(nodes.length);
+        nodes.forEach((node, i) => {
+            const position = node.position.clone().multiplyScalar(scale);
+            const radius = Math.max((node.width ?? pipe[i] * node.widthFactor) * radiusScale, minRadius);
+            if (node.parent < 0) {
+                graphNode[i] = addBranchNode(this.graph, null, [position.x, position.y, position.z], radius);
+                return;
+            }
+
+            const parentId = graphNode[node.parent];
+            const start = this.graph.nodes[parentId].position;
+            if (position.distanceTo(new Vector3(...start)) < 1e-6) {
+                graphNode[i] = parentId;
+                return;
+            }
+            // Every segment is a cylinder with the radius of its end node
+            graphNode[i] = addBranchNode(this.graph, parentId, [position.x, position.y, position.z], radius, { baseRadius: radius });
+        });
+
+        assignBranchOrders(this.graph);
+    }
+}
+
+// --- L-system grammar parsing ---
+
+const MAX_MODULES = 200000;
+const MERGE_COS = Math.cos(3 * Math.PI / 180); // Max bend within a merged segment
+
+interface LModule {
+    symbol: string;
+    params: number[];
+}
+
+// Module in a rule successor, parameters are expressions over the formals
+interface LModuleTemplate {
+    symbol: string;
+    params: Expression[];
+}
+
+interface LRule {
+    symbol: string;
+    formals: string[];
+    condition: Condition | null;
+    probability: number;
+    successor: LModuleTemplate[];
+}
+
+type Expression = (env: Record<string, number>) => number;
+type Condition = (env: Record<string, number>) => boolean;
+
+interface TurtleNode {
+    position: Vector3;
+    parent: number;
+    width: number | null; // Explicit width from !(w)
+    widthFactor: number;  // Accumulated ! decrements
+}
+
+interface TurtleState {
+    heading: Vector3;
+    left: Vector3;
+    up: Vector3;
+    position: Vector3;
+    node: number;
+    width: number | null;
+    widthFactor: number;
+    canExtend: boolean;
+}
+
+const cloneTurtle = (turtle: TurtleState): TurtleState => ({
+    ...turtle,
+    heading: turtle.heading.clone(),
+    left: turtle.left.clone(),
+    up: turtle.up.clone(),
+    position: turtle.position.clone(),
+});
+
+const evaluateModule = (env: Record<string, number>) => (template: LModuleTemplate): LModule => ({
+    symbol: template.symbol,
+    params: template.params.map(expression => expression(env)),
+});
+
+const formatModule = (module: LModule): string =>
+    module.params.length > 0
+        ? `${module.symbol}(${module.params.map(value => +value.toFixed(4)).join(',')})`
+        : module.symbol;
+
+/**
+ * Split a string into modules, e.g. "F(1.5)[+A(l*0.7)]"
+ */
+function parseModules(str: string): LModuleTemplate[] {
+    const modules: LModuleTemplate[] = [];
+    let i = 0;
+
+    while (i < str.length) {
+        const symbol = str[i++];
+        if (/\s/.test(symbol)) continue;
+
+        const params: Expression[] = [];
+        if (str[i] === '(') {
+            let depth = 0;
+            let current = '';
+            for (i++; i < str.length; i++) {
+                const char = str[i];
+                if (char === '(') depth++;
+                if (char === ')' && depth-- === 0) break;
+                if (char === ',' && depth === 0) {
+                    params.push(parseExpression(current));
+                    current = '';
+                } else {
+                    current += char;
+                }
+            }
+            i++; // Skip closing parenthesis
+            if (current.trim()) params.push(parseExpression(current));
+        }
+        modules.push({ symbol, params });
+    }
+    return modules;
+}
+
+/**
+ * Parse production rules, one per line:
+ * "pred[(formals)] [: probability | : condition] -> successor"
+ */
+function parseRules(text: string): LRule[] {
+    const rules: LRule[] = [];
+
+    for (const rawLine of text.split(/\n|;/)) {
+        const line = rawLine.split('#')[0].trim();
+        if (!line) continue;
+
+        const match = line.match(/^(\S)\s*(?:\(([^)]*)\))?\s*(?::\s*(.+?))?\s*(?:->|→)\s*(.*)$/);
+        if (!match) {
+            console.warn('[Botanist] Ignoring invalid L-system rule:', line);
+            continue;
+        }
+
+        const [, symbol, formals, guard, successor] = match;
+        // A number after the colon is a probability, anything else a condition
+        const isProbability = guard !== undefined && /^\d*\.?\d+$/.test(guard);
+        try {
+            rules.push({
+                symbol,
+                formals: formals ? formals.split(',').map(name => name.trim()).filter(Boolean) : [],
+                condition: guard !== undefined && !isProbability && guard !== '*' ? parseCondition(guard) : null,
+                probability: isProbability ? parseFloat(guard) : 1,
+                successor: parseModules(successor),
+            });
+        } catch (err) {
+            console.warn('[Botanist] Ignoring invalid L-system rule:', line, err);
+        }
     }
+    return rules;
+}
+
+/**
+ * Compile a rule condition: comparisons (< > <= >= = == !=) of expressions,
+ * joined with && and ||
+ */
+function parseCondition(source: string): Condition {
+    const alternatives = source.split('||').map(alternative => {
+        const terms = alternative.split('&&').map((term): Condition => {
+            const parts = term.split(/(<=|>=|==|!=|<|>|=)/);
+            if (parts.length !== 3) throw new Error(`Invalid condition "${term.trim()}"`);
+            const [lhs, op, rhs] = [parseExpression(parts[0]), parts[1], parseExpression(parts[2])];
+            switch (op) {
+                case '<': return env => lhs(env) < rhs(env);
+                case '>': return env => lhs(env) > rhs(env);
+                case '<=': return env => lhs(env) <= rhs(env);
+                case '>=': return env => lhs(env) >= rhs(env);
+                case '!=': return env => lhs(env) !== rhs(env);
+                default: return env => lhs(env) === rhs(env);
+            }
+        });
+        return (env: Record<string, number>) => terms.every(term => term(env));
+    });
+    return env => alternatives.some(alternative => alternative(env));
+}
+
+/**
+ * Compile an arithmetic expression (+ - * / ^, parentheses, variables)
+ */
+function parseExpression(source: string): Expression {
+    const tokens = source.match(/\d*\.?\d+(?:e[+-]?\d+)?|[A-Za-z_]\w*|[-+*/^()]/g) ?? [];
+    let pos = 0;
+
+    const parsePrimary = (): Expression => {
+        const token = tokens[pos++];
+        if (token === undefined) throw new Error(`Unexpected end of expression "${source}"`);
+        if (token === '(') {
+            const inner = parseSum();
+            pos++; // Skip ')'
+            return inner;
+        }
+        if (token === '-') {
+            const operand = parsePower();
+            return env => -operand(env);
+        }
+        if (/^[\d.]/.test(token)) {
+            const value = parseFloat(token);
+            return () => value;
+        }
+        return env => env[token] ?? 0;
+    };
+
+    const parsePower = (): Expression => {
+        const base = parsePrimary();
+        if (tokens[pos] !== '^') return base;
+        pos++;
+        const exponent = parsePower();
+        return env => Math.pow(base(env), exponent(env));
+    };
+
+    const parseProduct = (): Expression => {
+        let left = parsePower();
+        while (tokens[pos] === '*' || tokens[pos] === '/') {
+            const op = tokens[pos++];
+            const lhs = left;
+            const rhs = parsePower();
+            left = op === '*' ? env => lhs(env) * rhs(env) : env => lhs(env) / rhs(env);
+        }
+        return left;
+    };
+
+    const parseSum = (): Expression => {
+        let left = parseProduct();
+        while (tokens[pos] === '+' || tokens[pos] === '-') {
+            const op = tokens[pos++];
+            const lhs = left;
+            const rhs = parseProduct();
+            left = op === '+' ? env => lhs(env) + rhs(env) : env => lhs(env) - rhs(env);
+        }
+        return left;
+    };
+
+    return parseSum();
 }
@@ -0,0 +1,110 @@
+/**
+ * L-system Grammar Presets
+ *
+ * Textbook plants from "The Algorithmic Beauty of Plants"
+ * (Prusinkiewicz & Lindenmayer, 1990). Figure numbers refer to the book.
+ * User grammars are saved to localStorage next to the built-in ones.
+ */
+
+export interface LSystemGrammar {
+    name: string;
+    axiom: string;
+    rules: string;       // One production per line
+    iterations: number;
+    angle: number;       // Degrees
+}
+
+export const LSYSTEM_PRESETS: Record<string, LSystemGrammar> = {
+    'abop-1.24a': {
+        name: 'ABOP 1.24a - Ört',
+        axiom: 'F',
+        rules: 'F -> F[+F]F[-F]F',
+        iterations: 4,
+        angle: 25.7,
+    },
+    'abop-1.24b': {
+        name: 'ABOP 1.24b - Gräs',
+        axiom: 'F',
+        rules: 'F -> F[+F]F[-F][F]',
+        iterations: 4,
+        angle: 20,
+    },
+    'abop-1.24c': {
+        name: 'ABOP 1.24c - Buske',
+        axiom: 'F',
+        rules: 'F -> FF-[-F+F+F]+[+F-F-F]',
+        iterations: 3,
+        angle: 22.5,
+    },
+    'abop-1.24d': {
+        name: 'ABOP 1.24d - Kvist',
+        axiom: 'X',
+        rules: 'X -> F[+X]F[-X]+X\nF -> FF',
+        iterations: 5,
+        angle: 20,
+    },
+    'abop-1.24f': {
+        name: 'ABOP 1.24f - Ormbunke',
+        axiom: 'X',
+        rules: 'X -> F-[[X]+X]+F[+FX]-X\nF -> FF',
+        iterations: 4,
+        angle: 22.5,
+    },
+    'abop-1.25': {
+        name: 'ABOP 1.25 - 3D-buske',
+        axiom: 'A',
+        rules: 'A -> [&F!A]/////[&F!A]///////[&F!A]\nF -> S/////F\nS -> F',
+        iterations: 5,
+        angle: 22.5,
+    },
+    'abop-1.27': {
+        name: 'ABOP 1.27 - Stokastisk',
+        axiom: 'F',
+        rules: 'F : 0.33 -> F[+F]F[-F]F\nF : 0.33 -> F[+F]F\nF : 0.34 -> F[-F]F',
+        iterations: 4,
+        angle: 25.7,
+    },
+    'abop-2.6': {
+        name: 'ABOP 2.6 - Monopodialt träd',
+        axiom: 'A(1,10)',
+        rules: [
+            'A(l,w) -> !(w)F(l)[&(45)B(l*0.6,w*0.707)]/(137.5)A(l*0.9,w*0.707)',
+            'B(l,w) -> !(w)F(l)[-(45)C(l*0.6,w*0.707)]C(l*0.9,w*0.707)',
+            'C(l,w) -> !(w)F(l)[+(45)B(l*0.6,w*0.707)]B(l*0.9,w*0.707)',
+        ].join('\n'),
+        iterations: 8,
+        angle: 45,
+    },
+};
+
+const STORAGE_KEY = 'tradet.lsystemPresets';
+
+/**
+ * Load user-saved grammars from localStorage
+ */
+export function loadCustomGrammars(): Record<string, LSystemGrammar> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (err) {
+        console.warn('[LSystemPresets] Could not read saved grammars:', err);
+        return {};
+    }
+}
+
+/**
+ * Save a user grammar under its name, replacing any with the same name
+ */
+export function saveCustomGrammar(grammar: LSystemGrammar): string {
+    const id = `custom-${grammar.name}`;
+    const grammars = { ...loadCustomGrammars(), [id]: grammar };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(grammars));
+    return id;
+}
+
+/**
+ * Built-in and user grammars together
+ */
+export function getAllGrammars(): Record<string, LSystemGrammar> {
+    return { ...LSYSTEM_PRESETS, ...loadCustomGrammars() };
+}
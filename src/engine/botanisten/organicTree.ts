@@ -11,20 +11,14 @@
  */
 
 import { Vector3, Quaternion, Euler } from 'three';
-
-interface BranchSegment {
-    start: [number, number, number];
-    end: [number, number, number];
-    r1: number;
-    r2: number;
-}
+import { addBranchNode, createBranchGraph, type BranchGraph } from './branchGraph';
 
 /**
  * Organic Tree Generator
  * Creates trees with looping crown structures for 3D printing
  */
 export class OrganicTreeGenerator {
-    private segments: BranchSegment[] = [];
+    private graph: BranchGraph = createBranchGraph();
     private seed: number = 42;
 
     constructor() { }
@@ -49,8 +43,8 @@ export class OrganicTreeGenerator {
         branchThickness: number;
         crownDensity: number;
         seed?: number;
-    }): BranchSegment[] {
-        this.segments = [];
+    }): BranchGraph {
+        this.graph = createBranchGraph();
         this.seed = params.seed ?? 42;
 
         const {
@@ -63,36 +57,41 @@ export class OrganicTreeGenerator {
         } = params;
 
         // 1. Generate trunk
-        this.generateTrunk(trunkRadius, trunkHeight, branchThickness);
+        const branchNode = this.generateTrunk(trunkRadius, trunkHeight, branchThickness);
 
         // 2. Generate main branches from trunk top
         const trunkTop = new Vector3(0, trunkHeight, 0);
-        this.generateMainBranches(trunkTop, crownRadius, crownHeight, branchThickness, crownDensity);
+        this.generateMainBranches(branchNode, trunkTop, crownRadius, crownHeight, branchThickness, crownDensity);
 
         // 3. Generate organic crown loops
         this.generateCrownLoops(trunkTop, crownRadius, crownHeight, branchThickness, crownDensity);
 
-        console.log('[OrganicTree] Generated', this.segments.length, 'segments');
-        return this.segments;
+        console.log('[OrganicTree] Generated', this.graph.nodes.length, 'nodes');
+        return this.graph;
     }
 
     /**
-     * Generate the main trunk
+     * Generate the main trunk and return the node the main branches start from
      */
-    private generateTrunk(radius: number, height: number, minRadius: number): void {
-        // Single continuous trunk segment for better connection
-        this.segments.push({
-            start: [0, 0, 0],
-            end: [0, height, 0],
-            r1: Math.max(radius, minRadius),
-            r2: Math.max(radius * 0.7, minRadius),
-        });
+    private generateTrunk(radius: number, height: number, minRadius: number): number {
+        // Continuous taper, with a node half a metre below the top for the main branches
+        const r1 = Math.max(radius, minRadius);
+        const r2 = Math.max(radius * 0.7, minRadius);
+        const branchHeight = Math.max(height - 0.5, 0);
+
+        const base = addBranchNode(this.graph, null, [0, 0, 0], r1);
+        const branchNode = branchHeight > 0
+            ? addBranchNode(this.graph, base, [0, branchHeight, 0], r1 + (r2 - r1) * branchHeight / height)
+            : base;
+        addBranchNode(this.graph, branchNode, [0, height, 0], r2);
+        return branchNode;
     }
 
     /**
      * Generate main branches that extend outward from trunk
      */
     private generateMainBranches(
+        trunkNode: number,
         trunkTop: Vector3,
         crownRadius: number,
         _crownHeight: number,
@@ -115,15 +114,13 @@ export class OrganicTreeGenerator {
             const start = trunkTop.clone().add(new Vector3(0, -0.5, 0));
             const end = start.clone().add(new Vector3(dx * length, dy * length, dz * length));
 
-            this.segments.push({
-                start: [start.x, start.y, start.z],
-                end: [end.x, end.y, end.z],
-                r1: branchThickness * 1.5,
-                r2: branchThickness,
+            const branchNode = addBranchNode(this.graph, trunkNode, [end.x, end.y, end.z], branchThickness, {
+                baseRadius: branchThickness * 1.5,
+                lateral: true,
             });
 
             // Add secondary branches
-            this.generateSecondaryBranches(end, new Vector3(dx, dy, dz), branchThickness, crownRadius * 0.4, 2);
+            this.generateSecondaryBranches(branchNode, end, new Vector3(dx, dy, dz), branchThickness, crownRadius * 0.4, 2);
         }
     }
 
@@ -131,6 +128,7 @@ export class OrganicTreeGenerator {
      * Generate secondary branches recursively
      */
     private generateSecondaryBranches(
+        parentId: number,
         origin: Vector3,
         parentDir: Vector3,
         thickness: number,
@@ -153,15 +151,13 @@ export class OrganicTreeGenerator {
             const branchLength = length * this.randomRange(0.5, 0.9);
             const end = origin.clone().add(dir.clone().multiplyScalar(branchLength));
 
-            this.segments.push({
-                start: [origin.x, origin.y, origin.z],
-                end: [end.x, end.y, end.z],
-                r1: thickness,
-                r2: thickness * 0.8,
+            const nodeId = addBranchNode(this.graph, parentId, [end.x, end.y, end.z], thickness * 0.8, {
+                baseRadius: thickness,
+                lateral: true,
             });
 
             // Recurse
-            this.generateSecondaryBranches(end, dir, thickness * 0.8, branchLength * 0.7, depth - 1);
+            this.generateSecondaryBranches(nodeId, end, dir, thickness * 0.8, branchLength * 0.7, depth - 1);
         }
     }
 
@@ -238,17 +234,7 @@ export class OrganicTreeGenerator {
             points.push(point.add(center));
         }
 
-        // Create segments
-        for (let i = 0; i < points.length - 1; i++) {
-            const start = points[i];
-            const end = points[i + 1];
-            this.segments.push({
-                start: [start.x, start.y, start.z],
-                end: [end.x, end.y, end.z],
-                r1: thickness,
-                r2: thickness,
-            });
-        }
+        this.addLoopChain(points, thickness);
     }
 
     /**
@@ -276,16 +262,16 @@ export class OrganicTreeGenerator {
             points.push(point.add(center));
         }
 
-        // Create segments
-        for (let i = 0; i < points.length - 1; i++) {
-            const start = points[i];
-            const end = points[i + 1];
-            this.segments.push({
-                start: [start.x, start.y, start.z],
-                end: [end.x, end.y, end.z],
-                r1: thickness,
-                r2: thickness,
-            });
+        this.addLoopChain(points, thickness);
+    }
+
+    /**
+     * Add a loop as a free-standing chain; a closed loop ends on its start point
+     */
+    private addLoopChain(points: Vector3[], thickness: number): void {
+        let node = addBranchNode(this.graph, null, [points[0].x, points[0].y, points[0].z], thickness, { order: 1 });
+        for (const point of points.slice(1)) {
+            node = addBranchNode(this.graph, node, [point.x, point.y, point.z], thickness);
         }
     }
 }
@@ -11,18 +11,37 @@
  * - Central trunk continues through crown (leader)
  * - Branches generated at multiple heights along trunk
  * - Crown envelope limits branch extent for rounded shape
+ * - Optional prevailing wind: slender branches bend downwind, the leader
+ *   leans, the crown envelope is pushed downwind and the windward side
+ *   stays short and sparse (coastal "flagged" trees)
+ * - Growth habits: multi-stemmed, weeping, fastigiate (columnar), pollarded
+ *   and pleached trees, set per species and overridable per tree
+ * - The tree is generated fully grown; younger trees are the part of it
+ *   that had grown by their age (see growth.ts)
  */
 
 import { Vector3 } from 'three';
-
-interface BranchSegment {
-    start: [number, number, number];
-    end: [number, number, number];
-    r1: number;
-    r2: number;
-}
-
-// Tree species presets based on botanical research
+import type { FoliageCluster, TreeType } from './treeStyles';
+import { TREE_STYLES } from './treeStyles';
+import { generateFoliageFromBranchEnds } from './foliage';
+import { addBranchNode, createBranchGraph, type BranchGraph } from './branchGraph';
+import { getSpeciesPreset } from './speciesRegistry';
+import { GROWN_AGE, foliageScale, growToAge, type GrowthStage } from './growth';
+import {
+    CROWN_SHAPE_PROFILES, azimuthFactor, compassAngle, profileRadius, type CrownProfile, type CrownShape,
+} from './crownProfile';
+
+// How a tree grows apart from its proportions:
+// - standard: one trunk with a central leader
+// - multiStem: several trunks splitting near the ground (birch clumps, shrubs)
+// - weeping: branches hang down from their first fork (weeping willow)
+// - columnar: fastigiate, branches nearly parallel to the leader
+// - pollarded: cut back to knuckles that carry straight shoots, no leader
+// - pleached: trained flat along a row (street and avenue plantings)
+export type GrowthHabit = 'standard' | 'multiStem' | 'weeping' | 'columnar' | 'pollarded' | 'pleached';
+
+// Tree species preset based on botanical research; the species themselves
+// live in species.json (see speciesRegistry.ts)
 export interface TreePreset {
     name: string;
     trunkHeightRatio: number;      // Where trunk "stops" being dominant (but continues as leader)
@@ -31,136 +50,189 @@ export interface TreePreset {
     branchAngleVariation: number;  // Random variation in angle
     radiusDecay: number;           // How fast branches get thinner (0.5-0.7)
     lengthDecay: number;           // How fast branches get shorter (0.6-0.8)
-    crownShape: 'oval' | 'dome' | 'pyramidal' | 'spreading' | 'umbrella';
+    crownShape: CrownShape;
     maxBranchLevels: number;       // Maximum recursion depth
     terminalBranchCount: number;   // Branches at terminal nodes
     leaderRatio: number;           // How much leader (central trunk) extends through crown (0.5-1.0)
     terminalCurvature: number;     // NEW: Upward curvature at branch tips (phototropism)
     branchesPerLevel: number;      // NEW: How many primary branches per tier
+    foliageType: TreeType;         // Foliage style used for the "summer" version
+    habit: GrowthHabit;            // Growth habit, 'standard' unless the species has another
+    crownProfile?: CrownProfile;   // Drawn silhouette, replacing crownShape (see crownProfile.ts)
 }
 
-export const TREE_PRESETS: Record<string, TreePreset> = {
-    linden: {
-        name: 'Lind (Tilia cordata)',
-        trunkHeightRatio: 0.30,           // Lower trunk for fuller crown
-        trunkDiameterRatio: 0.028,        // Elegant trunk proportion
-        branchAngleBase: Math.PI / 4,     // ~45 degrees - upward sweep
-        branchAngleVariation: 0.30,       // Natural variation
-        radiusDecay: 0.58,                // Slower tapering for denser branches
-        lengthDecay: 0.75,                // Longer branches
-        crownShape: 'oval',
-        maxBranchLevels: 7,               // More levels for dense silhouette
-        terminalBranchCount: 3,           // More terminal branches
-        leaderRatio: 0.90,                // Strong leader for clear top
-        terminalCurvature: 0.08,          // Subtle upward curve
-        branchesPerLevel: 6,              // Many branches for dense crown
-    },
-    oak: {
-        name: 'Ek (Quercus robur)',
-        trunkHeightRatio: 0.25,           // Low crown start - characteristic oak
-        trunkDiameterRatio: 0.045,        // Strong but not excessive trunk
-        branchAngleBase: Math.PI / 3,     // ~60 degrees - upward then spreading
-        branchAngleVariation: 0.40,       // Natural irregularity
-        radiusDecay: 0.58,
-        lengthDecay: 0.70,
-        crownShape: 'dome',
-        maxBranchLevels: 5,               // Good detail
-        terminalBranchCount: 3,           // Fuller terminal branching
-        leaderRatio: 0.80,                // Strong leader extends through crown
-        terminalCurvature: 0.10,          // Upward curve at tips
-        branchesPerLevel: 5,              // Dense, characteristic oak crown
-    },
-    birch: {
-        name: 'Björk (Betula)',
-        trunkHeightRatio: 0.40,           // Mid-height crown start
-        trunkDiameterRatio: 0.022,        // Thin but not too thin (needs radius for branches)
-        branchAngleBase: Math.PI / 3.5,   // ~51 degrees - elegant upward then drooping
-        branchAngleVariation: 0.30,       // Natural irregularity  
-        radiusDecay: 0.60,                // Good visible branches
-        lengthDecay: 0.72,                // Good branch length
-        crownShape: 'dome',               // Dome works better for deciduous
-        maxBranchLevels: 6,               // Fine detail
-        terminalBranchCount: 3,           // Many fine twigs - birch character
-        leaderRatio: 0.85,                // Clear central leader
-        terminalCurvature: 0.18,          // Characteristic weeping at tips
-        branchesPerLevel: 5,              // Dense branching
-    },
-    // Conifers
-    spruce: {
-        name: 'Gran (Picea abies)',
-        trunkHeightRatio: 0.02,           // Branches from very near ground
-        trunkDiameterRatio: 0.016,        // Slender conifer trunk
-        branchAngleBase: Math.PI / 2.0,   // ~90 degrees - horizontal then drooping
-        branchAngleVariation: 0.03,       // Very consistent for clean pyramid
-        radiusDecay: 0.50,
-        lengthDecay: 0.92,                // Strong taper - bottom branches much longer
-        crownShape: 'pyramidal',
-        maxBranchLevels: 3,               // Simple whorl structure
-        terminalBranchCount: 2,
-        leaderRatio: 1.0,                 // Leader extends to very top
-        terminalCurvature: -0.08,         // Downward droop (characteristic spruce)
-        branchesPerLevel: 8,              // More whorled branches
-    },
-    pine: {
-        name: 'Tall (Pinus sylvestris)',
-        trunkHeightRatio: 0.50,           // High trunk - mature pine
-        trunkDiameterRatio: 0.012,        // Thinner trunk
-        branchAngleBase: Math.PI / 2.3,   // ~78 degrees - spreading
-        branchAngleVariation: 0.40,       // Natural irregularity
-        radiusDecay: 0.58,
-        lengthDecay: 0.72,                // Good branch length
-        crownShape: 'umbrella',           // Flat-topped
-        maxBranchLevels: 5,               // More branching detail
-        terminalBranchCount: 3,           // Fuller branching
-        leaderRatio: 0.50,                // Leader stops - umbrella top
-        terminalCurvature: 0.06,          // Subtle upward curve
-        branchesPerLevel: 6,              // More branches in crown
-    },
-};
+/**
+ * Crown silhouette of a species: its own profile, or that of its crown shape
+ */
+export function crownProfileOf(preset: TreePreset): CrownProfile {
+    return preset.crownProfile ?? CROWN_SHAPE_PROFILES[preset.crownShape];
+}
 
-// Age-based modifiers
-export interface AgeModifiers {
-    trunkThicknessMultiplier: number;
-    branchDensityMultiplier: number;
-    irregularity: number;
-    maxLevelsAdjust: number;
+/**
+ * Calculate crown radius at a given height from the crown profile,
+ * towards a compass direction (radians) for asymmetric crowns
+ */
+export function getCrownRadiusAtHeight(
+    profile: CrownProfile,
+    y: number,
+    crownBase: number,
+    crownTop: number,
+    maxRadius: number,
+    angle?: number
+): number {
+    if (y < crownBase || y > crownTop) return 0;
+
+    const normalizedY = (y - crownBase) / (crownTop - crownBase);
+    const direction = angle === undefined ? 1 : azimuthFactor(profile, angle);
+    return maxRadius * profileRadius(profile, normalizedY) * direction;
 }
 
-export const AGE_MODIFIERS: Record<string, AgeModifiers> = {
-    young: {
-        trunkThicknessMultiplier: 0.6,
-        branchDensityMultiplier: 0.7,
-        irregularity: 0.1,
-        maxLevelsAdjust: -2,
-    },
-    mature: {
-        trunkThicknessMultiplier: 1.0,
-        branchDensityMultiplier: 1.0,
-        irregularity: 0.2,
-        maxLevelsAdjust: 0,
-    },
-    old: {
-        trunkThicknessMultiplier: 1.4,
-        branchDensityMultiplier: 1.3,
-        irregularity: 0.4,
-        maxLevelsAdjust: 1,
-    },
+// How far a branch of unlimited slenderness turns downwind at full strength
+const WIND_BEND = 0.6;
+
+// Crown width of each growth habit, relative to a standard tree
+const HABIT_CROWN_WIDTH: Record<GrowthHabit, number> = {
+    standard: 1.0,
+    multiStem: 1.2,
+    weeping: 1.1,
+    columnar: 0.4,
+    pollarded: 0.7,
+    pleached: 1.0,
 };
 
-// Crown envelope - defines the outer shape of the crown
-interface CrownEnvelope {
+// Downward curvature of weeping branches, from this branch depth on
+const WEEPING_CURVATURE = -0.9;
+const WEEPING_FROM_DEPTH = 1;
+
+// Branch angles of columnar trees relative to the species' own angles
+const COLUMNAR_ANGLE = 0.3;
+
+// Pleached crowns: length along the row and depth across it, relative to the crown width
+const PLEACHED_LENGTH = 1.6;
+const PLEACHED_DEPTH = 0.25;
+
+/**
+ * Unit vector the wind blows towards, for a wind blowing from the given
+ * compass direction (0° = north = -Z, 90° = east = +X)
+ */
+export function windVector(fromDegrees: number): Vector3 {
+    const angle = fromDegrees * (Math.PI / 180);
+    return new Vector3(-Math.sin(angle), 0, Math.cos(angle));
+}
+
+// Crown envelope - defines the outer shape of the crown: an ellipsoid, or
+// with a profile the drawn silhouette scaled to the same extent
+export interface CrownEnvelope {
     center: Vector3;
     radiusX: number;
     radiusY: number;
     radiusZ: number;
+    profile?: CrownProfile;
+}
+
+export interface RealisticTreeParams {
+    treeHeight: number;
+    minRadius: number;
+    seed?: number;
+    preset?: string;
+    ageYears?: number;       // Age of the tree; omit for the fully grown tree
+    crownWidth?: number;
+    trunkHeight?: number;    // Manual override for trunk height ratio (0-1)
+    crownDensity?: number;   // Manual override for branch density (1-10)
+    trunkThickness?: number; // Manual override for thickness multiplier
+    windStrength?: number;   // 0-1
+    windDirection?: number;  // Compass degrees the wind blows from
+    neighbors?: CrownEnvelope[]; // Crowns of nearby trees, in this tree's coordinates
+    habit?: GrowthHabit;     // Manual override for the species' growth habit
+    stemCount?: number;      // Trunks of a multi-stemmed tree (2-6)
+    crownProfile?: CrownProfile; // Manual override for the species' crown silhouette
 }
 
+// One trunk of the tree: it starts at a node of the graph and leans `lean`
+// metres sideways for every metre it rises
+interface Stem {
+    parentId: number;
+    foot: Vector3;
+    lean: Vector3;
+    radius: number;
+    crownHeight: number;    // Height of this stem's part of the crown
+}
+
+/**
+ * Crown base, size and envelope of a tree, known before any branch grows
+ */
+export function planCrown(params: RealisticTreeParams) {
+    const preset = getSpeciesPreset(params.preset);
+    const habit = params.habit ?? preset.habit;
+    const drawnProfile = params.crownProfile ?? preset.crownProfile;
+    const treeHeight = params.treeHeight;
+    const windStrength = Math.max(0, Math.min(1, params.windStrength ?? 0));
+
+    // Use manual overrides if provided, otherwise use preset defaults
+    // trunkHeight is now in meters (where branches start), not a ratio
+    const baseOfCrown = params.trunkHeight !== undefined
+        ? Math.min(params.trunkHeight, treeHeight * 0.8)  // Cap at 80% of tree height
+        : treeHeight * preset.trunkHeightRatio;
+
+    // Crown dimensions - tighter envelope for clearer silhouette
+    const crownHeight = treeHeight - baseOfCrown;
+    const crownMaxRadius = crownHeight * 0.4 * (params.crownWidth ?? 1.0) * HABIT_CROWN_WIDTH[habit];
+
+    // Ellipsoid shape for realistic tree silhouette,
+    // pushed downwind so the windward side is cut short
+    const envelope: CrownEnvelope = {
+        center: new Vector3(0, baseOfCrown + crownHeight * 0.48, 0)
+            .addScaledVector(windVector(params.windDirection ?? 0), crownMaxRadius * 0.35 * windStrength),
+        radiusX: crownMaxRadius,
+        radiusY: crownHeight * 0.48,
+        radiusZ: crownMaxRadius,
+        profile: drawnProfile,
+    };
+
+    if (habit === 'weeping') {
+        // The hanging branches reach almost to the ground
+        const top = envelope.center.y + envelope.radiusY;
+        const bottom = treeHeight * 0.08;
+        envelope.center.y = (top + bottom) / 2;
+        envelope.radiusY = (top - bottom) / 2;
+    } else if (habit === 'pleached') {
+        // A flat wall along the row (X axis)
+        envelope.radiusX = crownMaxRadius * PLEACHED_LENGTH;
+        envelope.radiusZ = crownMaxRadius * PLEACHED_DEPTH;
+    }
+
+    const profile = drawnProfile ?? CROWN_SHAPE_PROFILES[preset.crownShape];
+    return { baseOfCrown, crownHeight, crownMaxRadius, envelope, habit, profile };
+}
+
+// Envelope radii from the center: below 1 inside, 1 on the surface
+const envelopeDistance = (envelope: CrownEnvelope, point: Vector3): number => {
+    const dx = (point.x - envelope.center.x) / envelope.radiusX;
+    const dy = (point.y - envelope.center.y) / envelope.radiusY;
+    const dz = (point.z - envelope.center.z) / envelope.radiusZ;
+    if (!envelope.profile) return Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+    // Drawn silhouette: inside while below the top, above the base and
+    // within the profile's radius at this height and direction
+    const height = Math.max(0, Math.min(1, (dy + 1) / 2));
+    const allowed = profileRadius(envelope.profile, height) * azimuthFactor(envelope.profile, compassAngle(dx, dz));
+    return Math.max(Math.abs(dy), Math.hypot(dx, dz) / Math.max(allowed, 1e-3));
+};
+
 export class RealisticTreeGenerator {
-    private segments: BranchSegment[] = [];
+    private graph: BranchGraph = createBranchGraph();
+    private branchEnds: Vector3[] = []; // Tips of terminal branches, used for foliage
+    private branchEndNodes: number[] = []; // Node of each tip
     private seed: number = 42;
-    private preset: TreePreset = TREE_PRESETS.linden;
-    private ageModifiers: AgeModifiers = AGE_MODIFIERS.mature;
+    private preset: TreePreset = getSpeciesPreset(undefined);
+    private ageYears = GROWN_AGE;
+    private growthStage: GrowthStage | null = null; // The tree at ageYears, when younger or older than grown
     private crownEnvelope: CrownEnvelope | null = null;
+    private crownProfile: CrownProfile = CROWN_SHAPE_PROFILES.oval;
+    private neighbors: CrownEnvelope[] = [];
+    private windDirection = new Vector3(); // Downwind, horizontal unit vector
+    private windStrength = 0;               // 0 = calm, 1 = storm-shaped
+    private habit: GrowthHabit = 'standard';
 
     constructor() { }
 
@@ -180,6 +252,7 @@ export class RealisticTreeGenerator {
      */
     private getDirectionTowardSurface(point: Vector3): Vector3 {
         if (!this.crownEnvelope) return new Vector3(0, 1, 0);
+        if (this.crownEnvelope.profile) return this.profileSurfaceDirection(point);
 
         // Direction from center to point (outward)
         const toPoint = point.clone().sub(this.crownEnvelope.center);
@@ -195,207 +268,359 @@ export class RealisticTreeGenerator {
         return scaledDir.normalize();
     }
 
+    /**
+     * Outward direction through a drawn crown silhouette: the direction in
+     * which the envelope distance grows fastest
+     */
+    private profileSurfaceDirection(point: Vector3): Vector3 {
+        const envelope = this.crownEnvelope!;
+        const step = 0.01 * Math.min(envelope.radiusX, envelope.radiusY, envelope.radiusZ);
+        const probe = point.clone();
+        const slope = (axis: 'x' | 'y' | 'z') => {
+            probe.copy(point);
+            probe[axis] += step;
+            const ahead = envelopeDistance(envelope, probe);
+            probe[axis] -= 2 * step;
+            return ahead - envelopeDistance(envelope, probe);
+        };
+
+        const direction = new Vector3(slope('x'), slope('y'), slope('z'));
+        return direction.lengthSq() > 1e-12 ? direction.normalize() : new Vector3(0, 1, 0);
+    }
+
     /**
      * Calculate distance to crown surface (0 = at surface, negative = inside, positive = outside)
      */
     private distanceToCrownSurface(point: Vector3): number {
         if (!this.crownEnvelope) return -1;
+        return envelopeDistance(this.crownEnvelope, point) - 1.0;
+    }
 
-        const dx = (point.x - this.crownEnvelope.center.x) / this.crownEnvelope.radiusX;
-        const dy = (point.y - this.crownEnvelope.center.y) / this.crownEnvelope.radiusY;
-        const dz = (point.z - this.crownEnvelope.center.z) / this.crownEnvelope.radiusZ;
+    /**
+     * Whether a neighbour's crown owns this point: it lies inside the
+     * neighbour's envelope and relatively deeper in it than in our own, so
+     * two overlapping crowns split the shared space and meet in between
+     */
+    private isOccupiedByNeighbor(point: Vector3): boolean {
+        if (this.neighbors.length === 0 || !this.crownEnvelope) return false;
+        const own = envelopeDistance(this.crownEnvelope, point);
+        return this.neighbors.some(neighbor => {
+            const distance = envelopeDistance(neighbor, point);
+            return distance < 1 && distance < own;
+        });
+    }
 
-        return Math.sqrt(dx * dx + dy * dy + dz * dz) - 1.0;
+    /**
+     * How much a branch points into the wind: 0 downwind or sideways, 1 straight upwind
+     */
+    private windwardness(direction: Vector3): number {
+        const horizontal = new Vector3(direction.x, 0, direction.z);
+        if (this.windStrength === 0 || horizontal.lengthSq() < 1e-8) return 0;
+        return Math.max(0, -horizontal.normalize().dot(this.windDirection));
+    }
+
+    /**
+     * Turn a growth direction downwind, more for slender branches
+     */
+    private bendInWind(direction: Vector3, length: number, radius: number): void {
+        if (this.windStrength === 0) return;
+        const slenderness = length / Math.max(radius, 1e-6);
+        const bend = this.windStrength * WIND_BEND * slenderness / (slenderness + 20);
+        direction.addScaledVector(this.windDirection, bend).normalize();
     }
 
     /**
      * Calculate crown radius at a given height based on crown shape
      */
     private getCrownRadiusAtHeight(y: number, crownBase: number, crownTop: number, maxRadius: number): number {
-        if (y < crownBase || y > crownTop) return 0;
-
-        const crownHeight = crownTop - crownBase;
-        const normalizedY = (y - crownBase) / crownHeight;
-
-        // Shape multiplier based on crown shape
-        let shapeMultiplier: number;
-
-        switch (this.preset.crownShape) {
-            case 'pyramidal':
-                // Widest at base, tapering to point at top (like spruce)
-                shapeMultiplier = 1.0 - normalizedY * 0.9;
-                break;
-            case 'umbrella':
-                // Narrow at bottom, wide at top (like Scots pine)
-                shapeMultiplier = 0.2 + normalizedY * 0.8;
-                break;
-            case 'dome':
-                // Rounded dome - wider in middle-upper region
-                shapeMultiplier = Math.sin(normalizedY * Math.PI * 0.8 + 0.2);
-                break;
-            case 'oval':
-            case 'spreading':
-            default:
-                // Oval/ellipsoid shape - max radius at center
-                shapeMultiplier = Math.sin(normalizedY * Math.PI);
-                break;
-        }
-
-        return maxRadius * shapeMultiplier;
+        return getCrownRadiusAtHeight(this.crownProfile, y, crownBase, crownTop, maxRadius);
     }
 
     /**
      * Generate a realistic tree structure
      */
-    generateTree(params: {
-        treeHeight: number;
-        minRadius: number;
-        seed?: number;
-        preset?: string;
-        age?: string;
-        crownWidth?: number;
-        trunkHeight?: number;    // Manual override for trunk height ratio (0-1)
-        crownDensity?: number;   // Manual override for branch density (1-10)
-        trunkThickness?: number; // Manual override for thickness multiplier
-    }): BranchSegment[] {
-        this.segments = [];
+    generateTree(params: RealisticTreeParams): BranchGraph {
+        this.graph = createBranchGraph();
+        this.branchEnds = [];
+        this.branchEndNodes = [];
         this.seed = params.seed ?? 42;
-        this.preset = TREE_PRESETS[params.preset ?? 'linden'] || TREE_PRESETS.linden;
-        this.ageModifiers = AGE_MODIFIERS[params.age ?? 'mature'] || AGE_MODIFIERS.mature;
+        this.preset = getSpeciesPreset(params.preset);
+        this.ageYears = params.ageYears ?? GROWN_AGE;
+        this.growthStage = null;
+        this.windStrength = Math.max(0, Math.min(1, params.windStrength ?? 0));
+        this.windDirection = windVector(params.windDirection ?? 0);
 
-        const treeHeight = params.treeHeight;
-        const crownWidth = params.crownWidth ?? 1.0;
+        this.neighbors = params.neighbors ?? [];
 
-        // Use manual overrides if provided, otherwise use preset defaults
-        // trunkHeight is now in meters (where branches start), not a ratio
-        const baseOfCrown = params.trunkHeight !== undefined
-            ? Math.min(params.trunkHeight, treeHeight * 0.8)  // Cap at 80% of tree height
-            : treeHeight * this.preset.trunkHeightRatio;
+        const treeHeight = params.treeHeight;
+        const { baseOfCrown, crownHeight, crownMaxRadius, envelope, habit, profile } = planCrown(params);
+        this.crownEnvelope = envelope;
+        this.crownProfile = profile;
+        this.habit = habit;
         const effectiveDensity = params.crownDensity ?? 5;  // 1-10 scale
         const effectiveThickness = params.trunkThickness ?? 1.0;
 
         // Calculate trunk dimensions using effective trunk height
         // Trunk radius should be proportional to tree height, not crown base
         // This ensures consistent branch thickness regardless of where branches start
-        const trunkRadius = treeHeight * this.preset.trunkDiameterRatio * this.ageModifiers.trunkThicknessMultiplier * effectiveThickness;
-        // Higher min radius = fewer segments = faster generation
-        const minRadius = Math.max(params.minRadius * 0.25, 0.03);
-
-        // Crown dimensions - tighter envelope for clearer silhouette
-        const crownHeight = treeHeight - baseOfCrown;
-        const crownMaxRadius = crownHeight * 0.4 * crownWidth;
-
-        // Set up crown envelope - ellipsoid shape for realistic tree silhouette
-        this.crownEnvelope = {
-            center: new Vector3(0, baseOfCrown + crownHeight * 0.48, 0),
-            radiusX: crownMaxRadius,
-            radiusY: crownHeight * 0.48,
-            radiusZ: crownMaxRadius,
-        };
+        const trunkRadius = treeHeight * this.preset.trunkDiameterRatio * effectiveThickness;
+        // Grow twigs below the printable minimum too; the printability policy
+        // thickens or prunes them afterwards
+        const minRadius = params.minRadius * 0.25;
+
 
         // Generate main trunk (from ground to base of crown)
-        this.segments.push({
-            start: [0, 0, 0],
-            end: [0, baseOfCrown, 0],
-            r1: trunkRadius * 1.3,
-            r2: trunkRadius,
-        });
+        const trunkBase = addBranchNode(this.graph, null, [0, 0, 0], trunkRadius * 1.3);
 
-        // Generate leader (central trunk continuing through crown)
-        // This should be VISIBLE as a central spine
-        const leaderHeight = crownHeight * this.preset.leaderRatio;
-        const leaderTop = baseOfCrown + leaderHeight;
-        // Leader tapers slowly to remain visible
-        const leaderTopRadius = trunkRadius * 0.4;
-
-        // Split leader into 2-3 segments for smoother tapering
-        const leaderMid = baseOfCrown + leaderHeight * 0.5;
-        const leaderMidRadius = trunkRadius * 0.65;
-
-        this.segments.push({
-            start: [0, baseOfCrown, 0],
-            end: [0, leaderMid, 0],
-            r1: trunkRadius,
-            r2: leaderMidRadius,
-        });
+        if (habit === 'pollarded') {
+            this.generatePollardHeads(trunkBase, trunkRadius, baseOfCrown, crownHeight, minRadius);
+            console.log('[RealisticTree] Generated', this.graph.nodes.length, 'nodes with preset:', this.preset.name, `(${habit})`);
+            return this.atAge();
+        }
 
-        this.segments.push({
-            start: [0, leaderMid, 0],
-            end: [0, leaderTop, 0],
-            r1: leaderMidRadius,
-            r2: leaderTopRadius,
-        });
+        const stems: Stem[] = habit === 'multiStem'
+            ? this.splitStems(trunkBase, trunkRadius, params.stemCount ?? 3, baseOfCrown, crownHeight, crownMaxRadius)
+            : [{ parentId: trunkBase, foot: new Vector3(), lean: new Vector3(), radius: trunkRadius, crownHeight }];
+
+        // Stems share the branches of one tree
+        const stemShare = 1 / Math.sqrt(stems.length);
 
         // Effective max levels based on age
-        const maxLevels = Math.max(4, this.preset.maxBranchLevels + this.ageModifiers.maxLevelsAdjust);
+        const maxLevels = Math.max(4, this.preset.maxBranchLevels);
 
         // Generate branches at multiple heights along the leader
         // Use crownDensity parameter: 1=sparse (3 levels), 10=dense (10 levels)
         // Capped at 10 for performance on Vercel
-        const numBranchLevels = Math.min(10, Math.floor(3 + (effectiveDensity / 10) * 7 * this.ageModifiers.branchDensityMultiplier));
-
-        for (let level = 0; level < numBranchLevels; level++) {
-            // Height along the leader where this tier of branches originates
-            const t = (level + 0.5) / numBranchLevels;
-            const branchHeight = baseOfCrown + t * leaderHeight * 0.9;
-
-            // Radius of leader at this height
-            const leaderRadiusHere = trunkRadius * 0.9 * (1 - t * 0.7);
-
-            // Available crown radius at this height (for limiting branch extent)
-            const availableRadius = this.getCrownRadiusAtHeight(
-                branchHeight,
-                baseOfCrown,
-                treeHeight,
-                crownMaxRadius
+        const numBranchLevels = Math.min(10, Math.floor(3 + (effectiveDensity / 10) * 7));
+
+        for (const stem of stems) {
+            const stemRadius = stem.radius;
+            const stemAxis = new Vector3(stem.lean.x, 1, stem.lean.z).normalize();
+            const stemPoint = (y: number) => new Vector3(
+                stem.foot.x + stem.lean.x * (y - stem.foot.y),
+                y,
+                stem.foot.z + stem.lean.z * (y - stem.foot.y)
             );
 
-            // Branch length based on available space
-            const baseBranchLength = availableRadius * this.randomRange(0.85, 1.1);
+            const crownBasePosition = stemPoint(baseOfCrown);
+            const crownBase = addBranchNode(
+                this.graph, stem.parentId, [crownBasePosition.x, crownBasePosition.y, crownBasePosition.z], stemRadius
+            );
+
+            // Generate leader (central trunk continuing through crown)
+            // This should be VISIBLE as a central spine
+            const leaderHeight = stem.crownHeight * this.preset.leaderRatio;
+            const leaderTop = baseOfCrown + leaderHeight;
+            // Leader tapers slowly to remain visible
+            const leaderTopRadius = stemRadius * 0.4;
+
+            // Taper in two stages for smoother tapering
+            const leaderMid = baseOfCrown + leaderHeight * 0.5;
+            const leaderMidRadius = stemRadius * 0.65;
+            const leaderRadiusAt = (y: number) => y <= leaderMid
+                ? stemRadius + (leaderMidRadius - stemRadius) * (y - baseOfCrown) / (leaderMid - baseOfCrown)
+                : leaderMidRadius + (leaderTopRadius - leaderMidRadius) * (y - leaderMid) / (leaderTop - leaderMid);
+
+            // Height along the leader where each tier of branches originates
+            const tierHeights = Array.from({ length: numBranchLevels }, (_, level) =>
+                baseOfCrown + ((level + 0.5) / numBranchLevels) * leaderHeight * 0.9
+            );
 
-            // Number of branches at this level - use preset value with variation
-            const baseCount = this.preset.branchesPerLevel || 3;
-            const branchesAtLevel = Math.max(2, Math.floor(
-                baseCount * (1 - t * 0.2) * this.ageModifiers.branchDensityMultiplier
-            ));
+            // The leader leans downwind, most near the top
+            const leaderLean = (y: number) => {
+                const t = (y - baseOfCrown) / leaderHeight;
+                return stemPoint(y).addScaledVector(this.windDirection, t * t * leaderHeight * 0.15 * this.windStrength);
+            };
+
+            // The leader gets a node at every tier so the branches hang from it
+            const leaderNodes = new Map<number, number>();
+            let leaderNode = crownBase;
+            for (const y of [...tierHeights, leaderMid, leaderTop].sort((a, b) => a - b)) {
+                if (leaderNodes.has(y)) continue;
+                const position = leaderLean(y);
+                leaderNode = addBranchNode(this.graph, leaderNode, [position.x, position.y, position.z], leaderRadiusAt(y));
+                leaderNodes.set(y, leaderNode);
+            }
 
-            const origin = new Vector3(0, branchHeight, 0);
+            for (let level = 0; level < numBranchLevels; level++) {
+                // Height along the leader where this tier of branches originates
+                const t = (level + 0.5) / numBranchLevels;
+                const branchHeight = tierHeights[level];
 
-            for (let i = 0; i < branchesAtLevel; i++) {
-                // Use golden angle distribution for more natural spacing
-                const goldenAngle = Math.PI * (3 - Math.sqrt(5));
-                const phi = i * goldenAngle + level * 0.5 + this.randomRange(-0.4, 0.4);
+                // Radius of leader at this height
+                const leaderRadiusHere = stemRadius * 0.9 * (1 - t * 0.7);
 
-                // Angle decreases slightly for upper branches (more upward)
-                const angleMultiplier = 1 - t * 0.25;
-                const theta = this.preset.branchAngleBase * angleMultiplier +
-                    this.randomRange(-this.preset.branchAngleVariation, this.preset.branchAngleVariation);
+                // Available crown radius at this height (for limiting branch extent)
+                const availableRadius = this.getCrownRadiusAtHeight(
+                    branchHeight,
+                    baseOfCrown,
+                    treeHeight,
+                    envelope.radiusX
+                );
 
-                const dir = this.calculateBranchDirection(new Vector3(0, 1, 0), theta, phi);
+                // Branch length based on available space
+                const baseBranchLength = availableRadius * this.randomRange(0.85, 1.1);
+
+                // Number of branches at this level - use preset value with variation.
+                // Pleached trees keep one branch to each side of the row.
+                const baseCount = this.preset.branchesPerLevel || 3;
+                const branchesAtLevel = habit === 'pleached' ? 2 : Math.max(2, Math.floor(
+                    baseCount * (1 - t * 0.2) * stemShare
+                ));
+
+                const origin = leaderLean(branchHeight);
+
+                for (let i = 0; i < branchesAtLevel; i++) {
+                    // Use golden angle distribution for more natural spacing
+                    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+                    const phi = i * goldenAngle + level * 0.5 + this.randomRange(-0.4, 0.4);
+
+                    // Angle decreases slightly for upper branches (more upward)
+                    const angleMultiplier = 1 - t * 0.25;
+                    let theta = this.preset.branchAngleBase * angleMultiplier +
+                        this.randomRange(-this.preset.branchAngleVariation, this.preset.branchAngleVariation);
+                    if (habit === 'columnar') theta *= COLUMNAR_ANGLE;
+
+                    // Pleached branches are trained nearly level along the row
+                    const dir = habit === 'pleached'
+                        ? new Vector3(i % 2 === 0 ? 1 : -1, 0.1, this.randomRange(-0.1, 0.1)).normalize()
+                        : this.calculateBranchDirection(stemAxis, theta, phi);
+
+                    // Branch radius using da Vinci rule approximation - more variation
+                    const branchRadius = leaderRadiusHere * (0.35 + this.random() * 0.25);
+
+                    // Branches into the wind stay short, and so do those
+                    // growing in between the stems of a multi-stemmed tree
+                    const inward = stem.lean.lengthSq() > 0
+                        ? Math.max(0, -new Vector3(dir.x, 0, dir.z).dot(stem.lean) / stem.lean.length())
+                        : 0;
+                    const branchLength = baseBranchLength * (1 - 0.5 * this.windStrength * this.windwardness(dir)) * (1 - 0.5 * inward) *
+                        azimuthFactor(profile, compassAngle(dir.x, dir.z));
+
+                    this.generateBranchWithEnvelope(
+                        leaderNodes.get(branchHeight)!,
+                        true,
+                        origin.clone(),
+                        dir,
+                        branchRadius,
+                        branchLength,
+                        0,
+                        minRadius,
+                        maxLevels
+                    );
+                }
+            }
+        }
 
-                // Branch radius using da Vinci rule approximation - more variation
-                const branchRadius = leaderRadiusHere * (0.35 + this.random() * 0.25);
+        console.log('[RealisticTree] Generated', this.graph.nodes.length, 'nodes with preset:', this.preset.name);
+        return this.atAge();
+    }
 
+    /**
+     * The generated (grown) tree as it stands at the requested age
+     */
+    private atAge(): BranchGraph {
+        if (this.ageYears === GROWN_AGE) return this.graph;
+        this.growthStage = growToAge(this.graph, this.ageYears);
+        console.log('[RealisticTree] At', this.ageYears, 'years:', this.growthStage.graph.nodes.length, 'of', this.graph.nodes.length, 'nodes');
+        return this.growthStage.graph;
+    }
+
+    /**
+     * Split the trunk just above the ground into several stems that lean
+     * outwards, spreading their tops over the crown. The stems together are
+     * a little thicker than the single trunk they replace.
+     */
+    private splitStems(
+        trunkBase: number,
+        trunkRadius: number,
+        count: number,
+        baseOfCrown: number,
+        crownHeight: number,
+        crownMaxRadius: number
+    ): Stem[] {
+        const stemCount = Math.max(2, Math.round(count));
+        const splitHeight = Math.min(0.5, baseOfCrown * 0.3);
+        const split = addBranchNode(this.graph, trunkBase, [0, splitHeight, 0], trunkRadius * 1.1);
+        const foot = new Vector3(0, splitHeight, 0);
+
+        // Lean that puts the stem tops about half the crown radius out
+        const rise = Math.max(baseOfCrown + crownHeight - splitHeight, 1e-6);
+        const lean = Math.min(0.35, crownMaxRadius * 0.5 / rise);
+        const radius = trunkRadius * 1.2 / Math.sqrt(stemCount);
+
+        return Array.from({ length: stemCount }, (_, i): Stem => {
+            const angle = (i / stemCount) * Math.PI * 2 + this.randomRange(-0.3, 0.3);
+            const amount = lean * this.randomRange(0.7, 1.0);
+            return {
+                parentId: split,
+                foot,
+                lean: new Vector3(Math.cos(angle) * amount, 0, Math.sin(angle) * amount),
+                radius: radius * this.randomRange(0.85, 1.0),
+                // The first stem is the tallest
+                crownHeight: crownHeight * (i === 0 ? 1 : this.randomRange(0.75, 0.95)),
+            };
+        });
+    }
+
+    /**
+     * Pollarded crown: the trunk ends in a few short arms, each cut back to
+     * a knuckle every few years. The knuckles carry long, straight, thin
+     * shoots that fork at most once, and there is no leader.
+     */
+    private generatePollardHeads(
+        trunkBase: number,
+        trunkRadius: number,
+        baseOfCrown: number,
+        crownHeight: number,
+        minRadius: number
+    ): void {
+        const head = addBranchNode(this.graph, trunkBase, [0, baseOfCrown, 0], trunkRadius);
+        const armCount = 3 + Math.floor(this.random() * 3);
+        const armLength = Math.min(1.0, crownHeight * 0.1);
+        const shootsPerKnuckle = Math.max(3, Math.round(this.preset.branchesPerLevel));
+        const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+
+        for (let arm = 0; arm < armCount; arm++) {
+            const armDir = this.calculateBranchDirection(
+                new Vector3(0, 1, 0),
+                this.randomRange(0.5, 0.8),
+                (arm / armCount) * Math.PI * 2 + this.randomRange(-0.3, 0.3)
+            );
+            const knuckle = new Vector3(0, baseOfCrown, 0).addScaledVector(armDir, armLength);
+            // Knuckles swell where the shoots are cut
+            const knuckleId = addBranchNode(this.graph, head, [knuckle.x, knuckle.y, knuckle.z], trunkRadius * 0.6, {
+                baseRadius: trunkRadius * 0.5,
+                lateral: arm > 0,
+            });
+
+            for (let i = 0; i < shootsPerKnuckle; i++) {
+                const dir = this.calculateBranchDirection(
+                    armDir.clone().lerp(new Vector3(0, 1, 0), 0.6),
+                    this.randomRange(0.05, 0.45),
+                    i * goldenAngle + this.randomRange(-0.4, 0.4)
+                );
                 this.generateBranchWithEnvelope(
-                    origin.clone(),
+                    knuckleId,
+                    true,
+                    knuckle.clone(),
                     dir,
-                    branchRadius,
-                    baseBranchLength,
+                    trunkRadius * this.randomRange(0.1, 0.16),
+                    crownHeight * this.randomRange(0.5, 0.8),
                     0,
                     minRadius,
-                    maxLevels
+                    2
                 );
             }
         }
-
-        console.log('[RealisticTree] Generated', this.segments.length, 'segments with preset:', this.preset.name);
-        return this.segments;
     }
 
     /**
      * Generate branches that respect the crown envelope
      */
     private generateBranchWithEnvelope(
+        parentId: number,
+        lateral: boolean,
         origin: Vector3,
         direction: Vector3,
         radius: number,
@@ -408,6 +633,8 @@ export class RealisticTreeGenerator {
         if (radius < minRadius) return;
         if (length < 0.04) return;
 
+        this.bendInWind(direction, length, radius);
+
         // Calculate end point
         const endPoint = origin.clone().add(direction.clone().multiplyScalar(length));
 
@@ -423,14 +650,32 @@ export class RealisticTreeGenerator {
             endPoint.copy(origin).lerp(endPoint, factor);
         }
 
+        // Stop where a neighbouring crown takes over the space
+        if (this.isOccupiedByNeighbor(endPoint)) {
+            if (this.isOccupiedByNeighbor(origin)) return;
+
+            // Bisect for the boundary along the branch
+            let free = 0;
+            let occupied = 1;
+            const probe = new Vector3();
+            for (let step = 0; step < 8; step++) {
+                const t = (free + occupied) / 2;
+                probe.copy(origin).lerp(endPoint, t);
+                if (this.isOccupiedByNeighbor(probe)) occupied = t;
+                else free = t;
+            }
+
+            if (origin.distanceTo(endPoint) * free < 0.04) return;
+            endPoint.sub(origin).multiplyScalar(free).add(origin);
+        }
+
         const endRadius = radius * 0.85;
 
-        this.segments.push({
-            start: [origin.x, origin.y, origin.z],
-            end: [endPoint.x, endPoint.y, endPoint.z],
-            r1: radius,
-            r2: endRadius,
+        const nodeId = addBranchNode(this.graph, parentId, [endPoint.x, endPoint.y, endPoint.z], endRadius, {
+            baseRadius: radius,
+            lateral,
         });
+        const nodeCount = this.graph.nodes.length;
 
         // Generate child branches - optimized for performance
         const baseChildren = depth < 2 ?
@@ -448,8 +693,9 @@ export class RealisticTreeGenerator {
 
             // Reduce angle for deeper branches (tend toward tips)
             const depthFactor = 1 - (depth / maxLevels) * 0.35;
-            const theta = this.preset.branchAngleBase * 0.55 * depthFactor +
+            let theta = this.preset.branchAngleBase * 0.55 * depthFactor +
                 this.randomRange(-this.preset.branchAngleVariation * 0.6, this.preset.branchAngleVariation * 0.6);
+            if (this.habit === 'columnar') theta *= COLUMNAR_ANGLE;
 
             const isNearTerminal = depth >= maxLevels - 2;
             const surfaceDir = this.getDirectionTowardSurface(endPoint);
@@ -462,16 +708,28 @@ export class RealisticTreeGenerator {
                 childDir.normalize();
             }
 
-            // Phototropism - upward curvature, stronger at tips (uses preset value)
-            const curvature = this.preset.terminalCurvature || 0.1;
+            // Phototropism - upward curvature, stronger at tips (uses preset value).
+            // Weeping branches turn down instead once they have forked.
+            const curvature = this.habit === 'weeping' && depth >= WEEPING_FROM_DEPTH
+                ? WEEPING_CURVATURE
+                : this.preset.terminalCurvature || 0.1;
             const curvatureStrength = curvature * (0.5 + depth * 0.15);
             childDir.y += curvatureStrength;
+            // Pleached side shoots are tied into the plane of the row
+            if (this.habit === 'pleached') childDir.z *= PLEACHED_DEPTH;
             childDir.normalize();
 
             const actualLength = childLength * this.randomRange(0.75, 1.25);
             const actualRadius = Math.max(childRadius * this.randomRange(0.9, 1.1), minRadius);
 
+            // The windward side is sparse: some side shoots into the wind never grow
+            const windward = this.windwardness(childDir);
+            if (i > 0 && windward > 0 && this.random() < this.windStrength * windward * 0.6) continue;
+
+            // The first child continues the branch, the others fork off
             this.generateBranchWithEnvelope(
+                nodeId,
+                i > 0,
                 endPoint.clone(),
                 childDir,
                 actualRadius,
@@ -481,6 +739,67 @@ export class RealisticTreeGenerator {
                 maxLevels
             );
         }
+
+        // No children were grown from here - this is a terminal twig
+        if (this.graph.nodes.length === nodeCount) {
+            this.branchEnds.push(endPoint.clone());
+            this.branchEndNodes.push(nodeId);
+        }
+    }
+
+    /**
+     * Endpoints of terminal branches from the last generateTree() call, at its age
+     */
+    getBranchEnds(): Vector3[] {
+        return this.endsAtAge(this.branchEnds.map((_, index) => index));
+    }
+
+    /**
+     * Where the growth towards the given tips has got to at the tree's age.
+     * Tips on the same growing shoot share one end.
+     */
+    private endsAtAge(indices: number[]): Vector3[] {
+        const stage = this.growthStage;
+        if (!stage) return indices.map(index => this.branchEnds[index]);
+
+        const grown = new Set<number>();
+        const ends: Vector3[] = [];
+        for (const index of indices) {
+            const id = stage.grownNode(this.branchEndNodes[index]);
+            if (id === null || grown.has(id)) continue;
+            grown.add(id);
+            ends.push(new Vector3(...stage.graph.nodes[id].position));
+        }
+        return ends;
+    }
+
+    /**
+     * Generate a foliage mass around the terminal branches of the last tree.
+     * Uses its own random sequence so the branches stay identical with or
+     * without foliage ("winter" and "summer" versions of the same seed).
+     */
+    generateFoliage(params: {
+        treeHeight: number;
+        treeType?: TreeType;
+        density?: number;  // 0-1, fraction of branch ends that carry a cluster
+        size?: number;     // Multiplier for cluster size
+        seed?: number;
+    }): FoliageCluster[] {
+        const style = TREE_STYLES[params.treeType ?? this.preset.foliageType];
+        const density = params.density ?? 0.7;
+        let foliageSeed = (params.seed ?? 42) + 7919;
+        const random = () => {
+            foliageSeed = (foliageSeed * 1103515245 + 12345) & 0x7fffffff;
+            return foliageSeed / 0x7fffffff;
+        };
+
+        // The same tips carry foliage at every age
+        const ends = this.endsAtAge(this.branchEnds.flatMap((_, index) => random() < density ? [index] : []));
+
+        // Cluster radius follows tree size, species crown style and age
+        const baseRadius = params.treeHeight * 0.035 * foliageScale(this.ageYears) * (params.size ?? 1.0);
+
+        return generateFoliageFromBranchEnds(ends, style, baseRadius);
     }
 
     /**
@@ -0,0 +1,234 @@
+/**
+ * Silhouette Fitting
+ *
+ * Fits the crown of the realistic generator to a side view of a real tree:
+ * a photo against the sky or a sketch on paper. The image is thresholded to
+ * a silhouette (the alpha channel of a cut-out, otherwise Otsu's threshold
+ * with the background taken from the image border), the largest connected
+ * shape is kept as the tree, and its width is measured row by row. The
+ * photo gives the proportions, the tree height in the settings gives the
+ * scale; the crown base, crown width and crown profile are then measured
+ * against the same envelope that planCrown grows the branches in.
+ */
+
+import { planCrown, type RealisticTreeParams } from './realisticTree';
+import { MAX_PROFILE_RADIUS, type CrownProfile } from './crownProfile';
+
+// RGBA pixels, as in the browser's ImageData
+export interface RasterImage {
+    width: number;
+    height: number;
+    data: ArrayLike<number>;
+}
+
+// Where the tree stands in the image, in pixels
+export interface SilhouettePlacement {
+    imageWidth: number;
+    imageHeight: number;
+    axis: number;       // Column of the trunk
+    ground: number;     // Row of the foot of the trunk
+    top: number;        // Row of the treetop
+    halfWidth: number;  // Widest crown half-width
+}
+
+export interface SilhouetteFit {
+    trunkHeight: number;   // Metres, on the panel's 0.5 m steps
+    crownWidth: number;    // Panel multiplier, on 0.1 steps
+    crownProfile: CrownProfile;
+    placement: SilhouettePlacement;
+}
+
+// Panel ranges of the fitted settings (Controls.tsx)
+const TRUNK_HEIGHT_RANGE: [number, number] = [1, 10];
+const CROWN_WIDTH_RANGE: [number, number] = [0.5, 2];
+
+const PROFILE_SAMPLES = 12;
+const MIN_TREE_ROWS = 16;
+
+// Share of the image that must be transparent for the alpha channel to be the mask
+const CUT_OUT_SHARE = 0.05;
+
+// The crown starts where the silhouette gets this much wider than the trunk,
+// or this share of the widest crown
+const CROWN_START_TRUNK_WIDTHS = 2.5;
+const CROWN_START_SHARE = 0.15;
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.max(min, Math.min(max, value));
+// Rounded to a slider step, without float noise like 1.2000000000000002
+const roundTo = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(3));
+
+// Otsu's threshold: the grey level that best splits the histogram in two
+const otsuThreshold = (levels: Uint8Array): number => {
+    const histogram = new Array<number>(256).fill(0);
+    for (const level of levels) histogram[level]++;
+
+    let sum = 0;
+    for (let level = 0; level < 256; level++) sum += level * histogram[level];
+
+    let best = 0;
+    let bestVariance = -1;
+    let countBelow = 0;
+    let sumBelow = 0;
+    for (let level = 0; level < 256; level++) {
+        countBelow += histogram[level];
+        sumBelow += level * histogram[level];
+        const countAbove = levels.length - countBelow;
+        if (countBelow === 0 || countAbove === 0) continue;
+        const meanDifference = sumBelow / countBelow - (sum - sumBelow) / countAbove;
+        const variance = countBelow * countAbove * meanDifference * meanDifference;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            best = level;
+        }
+    }
+    return best;
+};
+
+/**
+ * Foreground mask of an image, 1 for the tree and 0 for the background
+ */
+export function silhouetteMask(image: RasterImage): Uint8Array {
+    const { width, height, data } = image;
+    const count = width * height;
+    const mask = new Uint8Array(count);
+
+    let transparent = 0;
+    for (let i = 0; i < count; i++) if (data[i * 4 + 3] < 128) transparent++;
+    if (transparent > count * CUT_OUT_SHARE) {
+        for (let i = 0; i < count; i++) mask[i] = data[i * 4 + 3] >= 128 ? 1 : 0;
+        return mask;
+    }
+
+    const levels = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+        levels[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+    const threshold = otsuThreshold(levels);
+
+    // The border is mostly background: the tree is the other side of the threshold
+    let brightBorder = 0;
+    let border = 0;
+    for (let i = 0; i < count; i++) {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        if (x > 0 && y > 0 && x < width - 1 && y < height - 1) continue;
+        border++;
+        if (levels[i] > threshold) brightBorder++;
+    }
+    const darkTree = brightBorder * 2 >= border;
+    for (let i = 0; i < count; i++) mask[i] = (levels[i] > threshold) !== darkTree ? 1 : 0;
+    return mask;
+}
+
+// Keep only the largest 4-connected shape of a mask
+const largestShape = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+    const label = new Int32Array(mask.length).fill(-1);
+    let bestLabel = -1;
+    let bestSize = 0;
+    const stack: number[] = [];
+
+    for (let start = 0; start < mask.length; start++) {
+        if (!mask[start] || label[start] >= 0) continue;
+        label[start] = start;
+        stack.push(start);
+        let size = 0;
+        while (stack.length > 0) {
+            const i = stack.pop()!;
+            size++;
+            const x = i % width;
+            const neighbors = [
+                x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1,
+                i >= width ? i - width : -1, i < width * (height - 1) ? i + width : -1,
+            ];
+            for (const next of neighbors) {
+                if (next < 0 || !mask[next] || label[next] >= 0) continue;
+                label[next] = start;
+                stack.push(next);
+            }
+        }
+        if (size > bestSize) {
+            bestSize = size;
+            bestLabel = start;
+        }
+    }
+
+    return Uint8Array.from(label, (value) => value === bestLabel && bestLabel >= 0 ? 1 : 0);
+};
+
+/**
+ * Fit the crown of a tree to the silhouette in an image. The tree height,
+ * species and habit come from the params; the crown base, crown width and
+ * profile are measured. Throws if the image holds no tree shape.
+ */
+export function fitSilhouette(image: RasterImage, params: RealisticTreeParams): SilhouetteFit {
+    const { width, height } = image;
+    const mask = largestShape(silhouetteMask(image), width, height);
+
+    // Extent of the silhouette on every row
+    const left = new Array<number>(height).fill(Infinity);
+    const right = new Array<number>(height).fill(-Infinity);
+    for (let i = 0; i < mask.length; i++) {
+        if (!mask[i]) continue;
+        const x = i % width;
+        const y = Math.floor(i / width);
+        left[y] = Math.min(left[y], x);
+        right[y] = Math.max(right[y], x);
+    }
+    const rows = [...left.keys()].filter((y) => left[y] <= right[y]);
+    if (rows.length < MIN_TREE_ROWS) throw new Error('no tree shape found in the image');
+
+    const top = rows[0];
+    const ground = rows[rows.length - 1];
+    const halfWidth = (y: number) => left[y] <= right[y] ? (right[y] - left[y] + 1) / 2 : 0;
+
+    // Trunk position and width from the lowest rows
+    const footRows = rows.slice(-Math.max(1, Math.round(rows.length * 0.05)));
+    const axis = footRows.reduce((sum, y) => sum + (left[y] + right[y]) / 2, 0) / footRows.length;
+    const trunkHalfWidth = footRows.map(halfWidth).sort((a, b) => a - b)[Math.floor(footRows.length / 2)];
+    const widest = Math.max(...rows.map(halfWidth));
+
+    let crownStart = top;
+    const wideEnough = Math.max(trunkHalfWidth * CROWN_START_TRUNK_WIDTHS, widest * CROWN_START_SHARE);
+    for (let y = ground; y > top; y--) {
+        if (halfWidth(y) > wideEnough) {
+            crownStart = y;
+            break;
+        }
+    }
+
+    // Metres per pixel, from the tree height
+    const scale = params.treeHeight / Math.max(1, ground - top);
+    const trunkHeight = clamp(roundTo((ground - crownStart) * scale, 0.5), TRUNK_HEIGHT_RANGE);
+
+    // Measure the silhouette across the envelope the generator will use
+    const { envelope } = planCrown({ ...params, trunkHeight, crownWidth: 1, crownProfile: undefined });
+    const bottomY = envelope.center.y - envelope.radiusY;
+    const rowAt = (y: number) => Math.round(ground - y / scale);
+    const samples = Array.from({ length: PROFILE_SAMPLES }, (_, i) => {
+        const h = i / (PROFILE_SAMPLES - 1);
+        const row = rowAt(bottomY + h * envelope.radiusY * 2);
+        // Average over a few rows against ragged edges
+        const band = [row - 1, row, row + 1].filter((y) => y >= 0 && y < height);
+        const radius = band.reduce((sum, y) => sum + halfWidth(y), 0) / Math.max(1, band.length);
+        return [h, radius * scale] as [number, number];
+    });
+
+    const crownRadius = Math.max(...samples.map(([, radius]) => radius), 1e-6);
+    const crownWidth = clamp(roundTo(crownRadius / envelope.radiusX, 0.1), CROWN_WIDTH_RANGE);
+    const profileScale = envelope.radiusX * crownWidth;
+    const crownProfile: CrownProfile = {
+        points: samples.map(([h, radius]) => [
+            Math.round(h * 1000) / 1000,
+            Math.round(Math.min(MAX_PROFILE_RADIUS, radius / profileScale) * 1000) / 1000,
+        ]),
+    };
+
+    console.log('[Silhouette] Fitted', { trunkHeight, crownWidth, rows: ground - top + 1 });
+
+    return {
+        trunkHeight,
+        crownWidth,
+        crownProfile,
+        placement: { imageWidth: width, imageHeight: height, axis, ground, top, halfWidth: widest },
+    };
+}
@@ -0,0 +1,266 @@
+/**
+ * Space Colonization Tree Generator
+ *
+ * Based on Runions, Lane & Prusinkiewicz (2007),
+ * "Modeling Trees with a Space Colonization Algorithm":
+ * - Attraction points are scattered inside the crown envelope
+ * - Each point pulls the nearest tree node within the influence radius
+ * - Nodes grow one step toward the mean direction of their points
+ * - Points are removed once a node comes within the kill distance
+ * - Radii are computed from the tips back with the pipe model
+ *
+ * Gives evenly filled crowns with branches competing for space,
+ * which suits deciduous species better than fixed branch tiers.
+ */
+
+import { Vector3 } from 'three';
+import { crownProfileOf, getCrownRadiusAtHeight, type TreePreset } from './realisticTree';
+import { compassAngle, profileMaxRadius, type CrownProfile } from './crownProfile';
+import { getSpeciesPreset } from './speciesRegistry';
+import { addBranchNode, assignBranchOrders, createBranchGraph, type BranchGraph } from './branchGraph';
+
+interface ColonizationNode {
+    position: Vector3;
+    parent: number;
+    growth: Vector3;  // Accumulated attraction for the current iteration
+    pulls: number;
+}
+
+export class SpaceColonizationGenerator {
+    private graph: BranchGraph = createBranchGraph();
+    private nodes: ColonizationNode[] = [];
+    private seed: number = 42;
+
+    constructor() { }
+
+    private random(): number {
+        this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
+        return this.seed / 0x7fffffff;
+    }
+
+    private randomRange(min: number, max: number): number {
+        return min + this.random() * (max - min);
+    }
+
+    /**
+     * Generate a tree by colonizing the crown envelope
+     */
+    generateTree(params: {
+        treeHeight: number;
+        minRadius: number;
+        seed?: number;
+        preset?: string;
+        crownWidth?: number;
+        trunkHeight?: number;       // Height in meters where the crown starts
+        crownProfile?: CrownProfile; // Overrides the species' crown silhouette
+        attractionPoints?: number;  // Number of points scattered in the crown
+        influenceRadius?: number;   // Max distance a point attracts nodes from (m)
+        killDistance?: number;      // Points closer than this to a node are removed (m)
+        stepSize?: number;          // Growth step length (m)
+        trunkThickness?: number;
+        radiusExponent?: number;    // Da Vinci exponent for the pipe model
+    }): BranchGraph {
+        this.graph = createBranchGraph();
+        this.nodes = [];
+        this.seed = params.seed ?? 42;
+
+        const preset: TreePreset = getSpeciesPreset(params.preset);
+        const treeHeight = params.treeHeight;
+        const crownBase = params.trunkHeight !== undefined
+            ? Math.min(params.trunkHeight, treeHeight * 0.8)
+            : treeHeight * preset.trunkHeightRatio;
+        const crownHeight = treeHeight - crownBase;
+        const crownMaxRadius = crownHeight * 0.4 * (params.crownWidth ?? 1.0);
+
+        const stepSize = params.stepSize ?? 0.35;
+        const influenceRadius = params.influenceRadius ?? 3.0;
+        const killDistance = Math.max(params.killDistance ?? 0.8, stepSize * 1.5);
+
+        const attractors = this.scatterAttractors(
+            params.attractionPoints ?? 700,
+            params.crownProfile ?? crownProfileOf(preset),
+            crownBase,
+            treeHeight,
+            crownMaxRadius
+        );
+
+        // Trunk grows straight up until it reaches the crown and feels its pull
+        this.addNode(new Vector3(0, 0, 0), -1);
+        const reachesCrown = (top: Vector3) =>
+            top.y >= crownBase && attractors.some(point => point.distanceTo(top) < influenceRadius);
+        while (!reachesCrown(this.nodes[this.nodes.length - 1].position) &&
+            this.nodes[this.nodes.length - 1].position.y < treeHeight) {
+            const top = this.nodes[this.nodes.length - 1].position;
+            this.addNode(top.clone().add(new Vector3(0, stepSize, 0)), this.nodes.length - 1);
+        }
+
+        const grid = new SpatialGrid(influenceRadius);
+        this.nodes.forEach((node, index) => grid.insert(node.position, index));
+
+        const maxIterations = Math.ceil((treeHeight + crownMaxRadius) / stepSize) * 3;
+        let alive = attractors;
+
+        for (let iteration = 0; iteration < maxIterations && alive.length > 0; iteration++) {
+            // Each attractor pulls its closest node within the influence radius
+            for (const point of alive) {
+                const closest = grid.nearest(point, influenceRadius, this.nodes);
+                if (closest < 0) continue;
+                const node = this.nodes[closest];
+                node.growth.add(point.clone().sub(node.position).normalize());
+                node.pulls++;
+            }
+
+            // Grow new nodes toward the mean attraction direction
+            let grown = 0;
+            const count = this.nodes.length;
+            for (let i = 0; i < count; i++) {
+                const node = this.nodes[i];
+                if (node.pulls === 0) continue;
+
+                const direction = node.growth.normalize();
+                // Small jitter breaks up symmetric deadlocks between points
+                direction.add(new Vector3(
+                    this.randomRange(-0.05, 0.05),
+                    this.randomRange(-0.05, 0.05),
+                    this.randomRange(-0.05, 0.05)
+                )).normalize();
+
+                const position = node.position.clone().add(direction.multiplyScalar(stepSize));
+                node.growth.set(0, 0, 0);
+                node.pulls = 0;
+
+                const index = this.addNode(position, i);
+                grid.insert(position, index);
+                grown++;
+            }
+            if (grown === 0) break;
+
+            // Remove reached attractors
+            alive = alive.filter(point => grid.nearest(point, killDistance, this.nodes) < 0);
+        }
+
+        const trunkRadius = treeHeight * preset.trunkDiameterRatio * (params.trunkThickness ?? 1.0);
+        this.buildGraph(trunkRadius, params.minRadius, params.radiusExponent ?? 2.2);
+
+        console.log('[SpaceColonization] Generated', this.graph.nodes.length, 'nodes,', alive.length, 'attractors left');
+        return this.graph;
+    }
+
+    /**
+     * Scatter attraction points uniformly inside the crown envelope
+     */
+    private scatterAttractors(
+        count: number,
+        profile: CrownProfile,
+        crownBase: number,
+        crownTop: number,
+        maxRadius: number
+    ): Vector3[] {
+        const sampleRadius = maxRadius * profileMaxRadius(profile);
+        const points: Vector3[] = [];
+        let attempts = 0;
+
+        while (points.length < count && attempts < count * 20) {
+            attempts++;
+            const y = this.randomRange(crownBase, crownTop);
+            const r = Math.sqrt(this.random()) * sampleRadius; // Uniform over the disc
+            const phi = this.random() * Math.PI * 2;
+            const x = Math.cos(phi) * r;
+            const z = Math.sin(phi) * r;
+
+            if (r <= getCrownRadiusAtHeight(profile, y, crownBase, crownTop, maxRadius, compassAngle(x, z))) {
+                points.push(new Vector3(x, y, z));
+            }
+        }
+        return points;
+    }
+
+    private addNode(position: Vector3, parent: number): number {
+        this.nodes.push({ position, parent, growth: new Vector3(), pulls: 0 });
+        return this.nodes.length - 1;
+    }
+
+    /**
+     * Pipe-model radii from the tips back to the root, then scaled so the
+     * trunk gets the species' trunk radius
+     */
+    private buildGraph(trunkRadius: number, minRadius: number, exponent: number): void {
+        const pipe = new Array<number>(this.nodes.length).fill(0);
+        for (let i = this.nodes.length - 1; i >= 0; i--) {
+            const radius = pipe[i] > 0 ? Math.pow(pipe[i], 1 / exponent) : 1;
+            pipe[i] = radius;
+            const parent = this.nodes[i].parent;
+            if (parent >= 0) pipe[parent] += Math.pow(radius, exponent);
+        }
+
+        const radiusScale = trunkRadius / pipe[0];
+
+        // Colonization nodes map one to one onto graph nodes
+        this.nodes.forEach((node, i) => {
+            addBranchNode(
+                this.graph,
+                node.parent >= 0 ? node.parent : null,
+                [node.position.x, node.position.y, node.position.z],
+                Math.max(pipe[i] * radiusScale, minRadius)
+            );
+        });
+        assignBranchOrders(this.graph);
+    }
+}
+
+/**
+ * Uniform grid for nearest-node queries
+ */
+class SpatialGrid {
+    private cells = new Map<string, number[]>();
+    private cellSize: number;
+
+    constructor(cellSize: number) {
+        this.cellSize = cellSize;
+    }
+
+    private key(x: number, y: number, z: number): string {
+        return `${x},${y},${z}`;
+    }
+
+    insert(position: Vector3, index: number): void {
+        const key = this.key(
+            Math.floor(position.x / this.cellSize),
+            Math.floor(position.y / this.cellSize),
+            Math.floor(position.z / this.cellSize)
+        );
+        const cell = this.cells.get(key);
+        if (cell) cell.push(index);
+        else this.cells.set(key, [index]);
+    }
+
+    /**
+     * Index of the closest node within maxDistance, or -1
+     */
+    nearest(point: Vector3, maxDistance: number, nodes: ColonizationNode[]): number {
+        const cx = Math.floor(point.x / this.cellSize);
+        const cy = Math.floor(point.y / this.cellSize);
+        const cz = Math.floor(point.z / this.cellSize);
+        const reach = Math.ceil(maxDistance / this.cellSize);
+
+        let best = -1;
+        let bestDistSq = maxDistance * maxDistance;
+
+        for (let dx = -reach; dx <= reach; dx++) {
+            for (let dy = -reach; dy <= reach; dy++) {
+                for (let dz = -reach; dz <= reach; dz++) {
+                    const cell = this.cells.get(this.key(cx + dx, cy + dy, cz + dz));
+                    if (!cell) continue;
+                    for (const index of cell) {
+                        const distSq = nodes[index].position.distanceToSquared(point);
+                        if (distSq < bestDistSq) {
+                            bestDistSq = distSq;
+                            best = index;
+                        }
+                    }
+                }
+            }
+        }
+        return best;
+    }
+}
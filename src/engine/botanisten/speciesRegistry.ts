@@ -0,0 +1,182 @@
+/**
+ * Species Registry
+ *
+ * Every species the realistic generator knows, as data: the built-in
+ * species ship in species.json and user species are saved to localStorage
+ * next to them. Presets are checked field by field when loaded, so a
+ * hand-edited or imported file cannot grow NaN trees. The species
+ * selectors, the inventory name matching and the generators all read this
+ * registry, so a new species only needs an entry in species.json.
+ */
+
+import builtInSpecies from './species.json';
+import type { TreePreset } from './realisticTree';
+import { validateCrownProfile } from './crownProfile';
+
+export const DEFAULT_SPECIES = 'linden';
+
+type FieldSpec =
+    | { kind: 'text'; label: string }
+    | { kind: 'number'; label: string; min: number; max: number; step: number }
+    | { kind: 'option'; label: string; options: readonly string[]; fallback?: string }
+    | { kind: 'profile'; label: string };  // Optional, drawn in the crown profile editor
+
+// Allowed values of every preset field, for validation and the species editor
+export const PRESET_FIELDS: Record<keyof TreePreset, FieldSpec> = {
+    name: { kind: 'text', label: 'Namn' },
+    trunkHeightRatio: { kind: 'number', label: 'Stamhöjd (andel)', min: 0, max: 0.9, step: 0.01 },
+    trunkDiameterRatio: { kind: 'number', label: 'Stamdiameter (andel)', min: 0.002, max: 0.1, step: 0.001 },
+    branchAngleBase: { kind: 'number', label: 'Grenvinkel (rad)', min: 0, max: Math.PI * 0.75, step: 0.01 },
+    branchAngleVariation: { kind: 'number', label: 'Vinkelvariation (rad)', min: 0, max: 1, step: 0.01 },
+    radiusDecay: { kind: 'number', label: 'Tjockleksavtagande', min: 0.3, max: 0.9, step: 0.01 },
+    lengthDecay: { kind: 'number', label: 'Längdavtagande', min: 0.3, max: 1, step: 0.01 },
+    crownShape: { kind: 'option', label: 'Kronform', options: ['oval', 'dome', 'pyramidal', 'spreading', 'umbrella'] },
+    maxBranchLevels: { kind: 'number', label: 'Grennivåer', min: 1, max: 9, step: 1 },
+    terminalBranchCount: { kind: 'number', label: 'Toppgrenar', min: 1, max: 5, step: 1 },
+    leaderRatio: { kind: 'number', label: 'Ledarskott (andel)', min: 0.2, max: 1, step: 0.01 },
+    terminalCurvature: { kind: 'number', label: 'Toppkrökning', min: -0.5, max: 0.5, step: 0.01 },
+    branchesPerLevel: { kind: 'number', label: 'Grenar per våning', min: 1, max: 12, step: 1 },
+    foliageType: { kind: 'option', label: 'Lövverk', options: ['conifer', 'deciduous', 'shrub', 'cypress', 'palm'] },
+    // Species saved before growth habits existed grow as standard trees
+    habit: {
+        kind: 'option',
+        label: 'Växtsätt',
+        options: ['standard', 'multiStem', 'weeping', 'columnar', 'pollarded', 'pleached'],
+        fallback: 'standard',
+    },
+    crownProfile: { kind: 'profile', label: 'Kronprofil' },
+};
+
+const STORAGE_KEY = 'tradet.speciesPresets';
+
+/**
+ * Check every field of a preset, throwing an error that names the first bad one
+ */
+export function validateTreePreset(raw: unknown, id: string): TreePreset {
+    if (!raw || typeof raw !== 'object') throw new Error(`Species ${id} is not an object`);
+    const data = raw as Record<string, unknown>;
+    const preset: Record<string, unknown> = {};
+
+    for (const [field, spec] of Object.entries(PRESET_FIELDS)) {
+        if (spec.kind === 'profile') {
+            if (data[field] === undefined) continue;
+            try {
+                preset[field] = validateCrownProfile(data[field]);
+            } catch (err) {
+                throw new Error(`Species ${id}: invalid ${field} (${(err as Error).message})`);
+            }
+            continue;
+        }
+
+        const value = data[field] ?? (spec.kind === 'option' ? spec.fallback : undefined);
+        const valid = spec.kind === 'text' ? typeof value === 'string' && value.trim() !== ''
+            : spec.kind === 'option' ? spec.options.includes(value as string)
+            : typeof value === 'number' && isFinite(value) && value >= spec.min && value <= spec.max;
+        if (!valid) throw new Error(`Species ${id}: invalid ${field} (${JSON.stringify(value)})`);
+        preset[field] = value;
+    }
+
+    // Unknown fields are dropped
+    return preset as unknown as TreePreset;
+}
+
+/**
+ * Parse a JSON object of species presets by id
+ */
+export function parseSpeciesJSON(text: string): Record<string, TreePreset> {
+    return validateSpecies(JSON.parse(text));
+}
+
+function validateSpecies(data: unknown): Record<string, TreePreset> {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('Species file is not an object');
+    return Object.fromEntries(
+        Object.entries(data as Record<string, unknown>).map(([id, raw]) => [id, validateTreePreset(raw, id)])
+    );
+}
+
+const BUILT_IN: Record<string, TreePreset> = validateSpecies(builtInSpecies);
+
+// User species, read once and kept in step with localStorage
+let customSpecies: Record<string, TreePreset> | null = null;
+
+function loadCustomSpecies(): Record<string, TreePreset> {
+    if (customSpecies) return customSpecies;
+    customSpecies = {};
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+        for (const [id, raw] of Object.entries(stored)) {
+            try {
+                customSpecies[id] = validateTreePreset(raw, id);
+            } catch (err) {
+                console.warn('[SpeciesRegistry] Skipping saved species', id, err);
+            }
+        }
+    } catch (err) {
+        // No localStorage outside the browser, or a broken entry
+        console.warn('[SpeciesRegistry] Could not read saved species:', err);
+    }
+    return customSpecies;
+}
+
+function storeCustomSpecies(species: Record<string, TreePreset>): void {
+    customSpecies = species;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(species));
+}
+
+/**
+ * Built-in and user species together, built-in first
+ */
+export function getAllSpecies(): Record<string, TreePreset> {
+    return { ...BUILT_IN, ...loadCustomSpecies() };
+}
+
+/**
+ * Preset of a species, falling back to the default species for unknown ids
+ */
+export function getSpeciesPreset(id: string | undefined): TreePreset {
+    return getAllSpecies()[id ?? DEFAULT_SPECIES] ?? BUILT_IN[DEFAULT_SPECIES];
+}
+
+export function isBuiltInSpecies(id: string): boolean {
+    return id in BUILT_IN;
+}
+
+/**
+ * Species name to id, for selectors
+ */
+export function speciesOptions(): Record<string, string> {
+    return Object.fromEntries(Object.entries(getAllSpecies()).map(([id, preset]) => [preset.name, id]));
+}
+
+/**
+ * Save a user species under an id made from its name and return the id.
+ * Built-in species are never replaced; an edited copy gets its own id.
+ */
+export function saveCustomSpecies(preset: TreePreset): string {
+    const slug = preset.name.toLowerCase().split('(')[0].trim().replace(/[^a-z0-9åäö]+/g, '-').replace(/^-|-$/g, '');
+    const id = `custom-${slug || 'art'}`;
+    storeCustomSpecies({ ...loadCustomSpecies(), [id]: validateTreePreset(preset, id) });
+    return id;
+}
+
+/**
+ * Add every species of a parsed JSON file as user species
+ */
+export function importCustomSpecies(species: Record<string, TreePreset>): string[] {
+    const imported = Object.fromEntries(Object.entries(species).filter(([id]) => !isBuiltInSpecies(id)));
+    storeCustomSpecies({ ...loadCustomSpecies(), ...imported });
+    return Object.keys(imported);
+}
+
+export function deleteCustomSpecies(id: string): void {
+    const species = { ...loadCustomSpecies() };
+    delete species[id];
+    storeCustomSpecies(species);
+}
+
+/**
+ * User species as JSON, in the same format as species.json
+ */
+export function customSpeciesToJSON(): string {
+    return JSON.stringify(loadCustomSpecies(), null, 4);
+}
@@ -0,0 +1,62 @@
+/**
+ * Tree Groups
+ *
+ * Generates stands and alleys of realistic trees whose crowns make room for
+ * each other. Every tree is grown in its own coordinates (trunk at the
+ * origin) and receives the crown envelopes of the trees around it, moved
+ * into those coordinates. Where two envelopes overlap, each point belongs
+ * to the crown it lies deeper inside, so the crowns grow asymmetric and
+ * meet instead of passing through each other.
+ */
+
+import { Vector3 } from 'three';
+import type { BranchGraph } from './branchGraph';
+import type { FoliageCluster } from './treeStyles';
+import { RealisticTreeGenerator, planCrown, type CrownEnvelope, type RealisticTreeParams } from './realisticTree';
+
+export interface GroupTreeSpec {
+    position: [number, number];  // x, z on the site (m)
+    params: RealisticTreeParams;
+    foliage?: Parameters<RealisticTreeGenerator['generateFoliage']>[0]; // Omit for a bare tree
+}
+
+export interface GroupTree {
+    position: [number, number];
+    graph: BranchGraph;          // In the tree's own coordinates
+    foliage: FoliageCluster[];
+    envelope: CrownEnvelope;     // Unshaded crown, in the tree's own coordinates
+}
+
+/**
+ * Generate every tree of a group with its neighbours' crowns in place
+ */
+export function generateTreeGroup(
+    specs: GroupTreeSpec[],
+    generator: RealisticTreeGenerator = new RealisticTreeGenerator()
+): GroupTree[] {
+    const envelopes = specs.map(spec => planCrown(spec.params).envelope);
+
+    return specs.map((spec, index) => {
+        const own = envelopes[index];
+        const neighbors: CrownEnvelope[] = [];
+
+        specs.forEach((other, otherIndex) => {
+            if (otherIndex === index) return;
+            const envelope = envelopes[otherIndex];
+            const offset = new Vector3(other.position[0] - spec.position[0], 0, other.position[1] - spec.position[1]);
+            const center = envelope.center.clone().add(offset);
+
+            // Crowns that cannot touch are left out
+            const gap = Math.hypot(center.x - own.center.x, center.z - own.center.z);
+            if (gap >= Math.max(own.radiusX, own.radiusZ) + Math.max(envelope.radiusX, envelope.radiusZ)) return;
+
+            neighbors.push({ ...envelope, center });
+        });
+
+        const graph = generator.generateTree({ ...spec.params, neighbors });
+        const foliage = spec.foliage ? generator.generateFoliage(spec.foliage) : [];
+        console.log('[TreeGroup] Tree', index + 1, 'of', specs.length, 'shaded by', neighbors.length, 'neighbours');
+
+        return { position: spec.position, graph, foliage, envelope: own };
+    });
+}
@@ -0,0 +1,290 @@
+/**
+ * Mesh Exporters
+ *
+ * Writers for the file formats offered by the export button. All of them
+ * take the mesh layout returned by Manifold.getMesh() and are pure
+ * functions, so they run both in the worker and on the main thread.
+ *
+ * Units: the tree is modelled in metres. scaleMeshForExport() divides by
+ * the model scale (1:200 etc.) the same way for every format.
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+
+export type ExportFormat = 'stl' | 'stl-ascii' | '3mf' | 'obj';
+
+export interface ExportMesh {
+    numProp: number;
+    vertProperties: Float32Array;
+    triVerts: Uint32Array;
+}
+
+export interface ExportObject {
+    name: string;
+    mesh: ExportMesh;
+    offset?: [number, number]; // Position on the build plate in mm (3MF only)
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    'stl': { label: 'STL (binär)', extension: 'stl', mimeType: 'application/octet-stream' },
+    'stl-ascii': { label: 'STL (ASCII)', extension: 'stl', mimeType: 'text/plain' },
+    '3mf': { label: '3MF', extension: '3mf', mimeType: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml' },
+    'obj': { label: 'OBJ', extension: 'obj', mimeType: 'text/plain' },
+};
+
+/**
+ * Scale a mesh from model metres to print size (divide by model scale)
+ * e.g. 15m tree at 1:200 → 0.075m = 75mm in the file
+ */
+export function scaleMeshForExport(mesh: ExportMesh, modelScale: number): ExportMesh {
+    const scaleFactor = 1 / modelScale;
+    const scaledVertProperties = new Float32Array(mesh.vertProperties.length);
+    for (let i = 0; i < mesh.vertProperties.length; i++) {
+        scaledVertProperties[i] = mesh.vertProperties[i] * scaleFactor;
+    }
+    return { ...mesh, vertProperties: scaledVertProperties };
+}
+
+/**
+ * Write objects in the requested format
+ */
+export function exportObjects(objects: ExportObject[], format: ExportFormat, header: string): ArrayBuffer {
+    switch (format) {
+        case 'stl-ascii':
+            return textToBuffer(objects.map(object => meshToASCIISTL(object.mesh, object.name)).join(''));
+        case 'obj':
+            return textToBuffer(meshesToOBJ(objects, header));
+        case '3mf':
+            return meshesTo3MF(objects, header);
+        case 'stl':
+        default:
+            return meshToSTL(mergeMeshes(objects.map(object => object.mesh)), header);
+    }
+}
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const textToBuffer = (text: string): ArrayBuffer => toArrayBuffer(strToU8(text));
+
+const getVertex = (mesh: ExportMesh, index: number): [number, number, number] => [
+    mesh.vertProperties[index * mesh.numProp + 0],
+    mesh.vertProperties[index * mesh.numProp + 1],
+    mesh.vertProperties[index * mesh.numProp + 2],
+];
+
+const faceNormal = (v0: number[], v1: number[], v2: number[]): [number, number, number] => {
+    const e1 = [v1[0] - v0[0], v1[1] - v0[1], v1[2] - v0[2]];
+    const e2 = [v2[0] - v0[0], v2[1] - v0[1], v2[2] - v0[2]];
+    const nx = e1[1] * e2[2] - e1[2] * e2[1];
+    const ny = e1[2] * e2[0] - e1[0] * e2[2];
+    const nz = e1[0] * e2[1] - e1[1] * e2[0];
+    const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    return len > 0 ? [nx / len, ny / len, nz / len] : [0, 0, 0];
+};
+
+/**
+ * Concatenate meshes into one (for single-body formats like STL)
+ */
+function mergeMeshes(meshes: ExportMesh[]): ExportMesh {
+    if (meshes.length === 1) return meshes[0];
+
+    const numVerts = meshes.reduce((sum, mesh) => sum + mesh.vertProperties.length / mesh.numProp, 0);
+    const numIndices = meshes.reduce((sum, mesh) => sum + mesh.triVerts.length, 0);
+    const vertProperties = new Float32Array(numVerts * 3);
+    const triVerts = new Uint32Array(numIndices);
+
+    let vertOffset = 0;
+    let indexOffset = 0;
+    for (const mesh of meshes) {
+        const count = mesh.vertProperties.length / mesh.numProp;
+        for (let i = 0; i < count; i++) {
+            vertProperties.set(getVertex(mesh, i), (vertOffset + i) * 3);
+        }
+        for (let i = 0; i < mesh.triVerts.length; i++) {
+            triVerts[indexOffset + i] = mesh.triVerts[i] + vertOffset;
+        }
+        vertOffset += count;
+        indexOffset += mesh.triVerts.length;
+    }
+    return { numProp: 3, vertProperties, triVerts };
+}
+
+// Convert mesh to binary STL format
+export function meshToSTL(mesh: ExportMesh, header: string = 'Binary STL exported from Tradet Tree Generator'): ArrayBuffer {
+    const numTris = mesh.triVerts.length / 3;
+
+    // Binary STL format:
+    // 80 bytes header
+    // 4 bytes: number of triangles (uint32)
+    // For each triangle:
+    //   12 bytes: normal vector (3 floats)
+    //   36 bytes: 3 vertices (9 floats)
+    //   2 bytes: attribute byte count (uint16, typically 0)
+
+    const headerSize = 80;
+    const triangleSize = 50; // 12 + 36 + 2
+    const bufferSize = headerSize + 4 + (numTris * triangleSize);
+    const buffer = new ArrayBuffer(bufferSize);
+    const view = new DataView(buffer);
+
+    // Header (80 bytes, can be any text)
+    for (let i = 0; i < 80; i++) {
+        view.setUint8(i, i < header.length ? header.charCodeAt(i) & 0x7f : 0);
+    }
+
+    // Number of triangles
+    view.setUint32(80, numTris, true); // little-endian
+
+    let offset = 84;
+
+    for (let t = 0; t < numTris; t++) {
+        const v0 = getVertex(mesh, mesh.triVerts[t * 3 + 0]);
+        const v1 = getVertex(mesh, mesh.triVerts[t * 3 + 1]);
+        const v2 = getVertex(mesh, mesh.triVerts[t * 3 + 2]);
+
+        // Normal, then the three vertices (3 floats each)
+        for (const value of [...faceNormal(v0, v1, v2), ...v0, ...v1, ...v2]) {
+            view.setFloat32(offset, value, true);
+            offset += 4;
+        }
+
+        // Attribute byte count
+        view.setUint16(offset, 0, true); offset += 2;
+    }
+
+    return buffer;
+}
+
+/**
+ * ASCII STL - one solid per object
+ */
+export function meshToASCIISTL(mesh: ExportMesh, name: string): string {
+    const solidName = name.replace(/\s+/g, '_');
+    const lines: string[] = [`solid ${solidName}`];
+    const numTris = mesh.triVerts.length / 3;
+
+    for (let t = 0; t < numTris; t++) {
+        const v0 = getVertex(mesh, mesh.triVerts[t * 3 + 0]);
+        const v1 = getVertex(mesh, mesh.triVerts[t * 3 + 1]);
+        const v2 = getVertex(mesh, mesh.triVerts[t * 3 + 2]);
+        const n = faceNormal(v0, v1, v2);
+
+        lines.push(
+            `  facet normal ${n.map(formatFloat).join(' ')}`,
+            '    outer loop',
+            `      vertex ${v0.map(formatFloat).join(' ')}`,
+            `      vertex ${v1.map(formatFloat).join(' ')}`,
+            `      vertex ${v2.map(formatFloat).join(' ')}`,
+            '    endloop',
+            '  endfacet'
+        );
+    }
+
+    lines.push(`endsolid ${solidName}`, '');
+    return lines.join('\n');
+}
+
+/**
+ * Wavefront OBJ with shared vertices, one group per object
+ */
+export function meshesToOBJ(objects: ExportObject[], header: string): string {
+    const lines: string[] = [`# ${header}`];
+    let vertexOffset = 1; // OBJ indices are 1-based and global
+
+    for (const { name, mesh } of objects) {
+        const numVerts = mesh.vertProperties.length / mesh.numProp;
+        lines.push(`o ${name.replace(/\s+/g, '_')}`);
+
+        for (let i = 0; i < numVerts; i++) {
+            lines.push(`v ${getVertex(mesh, i).map(formatFloat).join(' ')}`);
+        }
+        for (let t = 0; t < mesh.triVerts.length; t += 3) {
+            lines.push(`f ${mesh.triVerts[t] + vertexOffset} ${mesh.triVerts[t + 1] + vertexOffset} ${mesh.triVerts[t + 2] + vertexOffset}`);
+        }
+        vertexOffset += numVerts;
+    }
+
+    lines.push('');
+    return lines.join('\n');
+}
+
+/**
+ * 3MF package (zip) with one object and build item per mesh.
+ * Coordinates are written in millimetres and rotated from the viewer's
+ * Y-up to the printer's Z-up, standing on the build plate. Objects with
+ * an offset are moved there by their build item transform.
+ */
+export function meshesTo3MF(objects: ExportObject[], header: string): ArrayBuffer {
+    const resources: string[] = [];
+    const items: string[] = [];
+
+    objects.forEach(({ name, mesh, offset }, index) => {
+        const id = index + 1;
+        const numVerts = mesh.vertProperties.length / mesh.numProp;
+
+        let minZ = Infinity;
+        for (let i = 0; i < numVerts; i++) {
+            minZ = Math.min(minZ, getVertex(mesh, i)[1] * 1000);
+        }
+
+        const vertices: string[] = [];
+        for (let i = 0; i < numVerts; i++) {
+            const [x, y, z] = getVertex(mesh, i);
+            // Metres to millimetres, Y-up to Z-up: (x, y, z) → (x, -z, y)
+            vertices.push(`<vertex x="${formatFloat(x * 1000)}" y="${formatFloat(-z * 1000)}" z="${formatFloat(y * 1000 - minZ)}"/>`);
+        }
+
+        const triangles: string[] = [];
+        for (let t = 0; t < mesh.triVerts.length; t += 3) {
+            triangles.push(`<triangle v1="${mesh.triVerts[t]}" v2="${mesh.triVerts[t + 1]}" v3="${mesh.triVerts[t + 2]}"/>`);
+        }
+
+        resources.push(
+            `<object id="${id}" name="${escapeXml(name)}" type="model"><mesh>` +
+            `<vertices>${vertices.join('')}</vertices>` +
+            `<triangles>${triangles.join('')}</triangles>` +
+            '</mesh></object>'
+        );
+        items.push(offset
+            ? `<item objectid="${id}" transform="1 0 0 0 1 0 0 0 1 ${formatFloat(offset[0])} ${formatFloat(offset[1])} 0"/>`
+            : `<item objectid="${id}"/>`);
+    });
+
+    const model = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+        `<metadata name="Title">${escapeXml(objects[0]?.name ?? 'tree')}</metadata>`,
+        '<metadata name="Application">Tradet Tree Generator</metadata>',
+        `<metadata name="Description">${escapeXml(header)}</metadata>`,
+        `<resources>${resources.join('')}</resources>`,
+        `<build>${items.join('')}</build>`,
+        '</model>',
+    ].join('\n');
+
+    const contentTypes = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>',
+        '</Types>',
+    ].join('\n');
+
+    const rels = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        '<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>',
+        '</Relationships>',
+    ].join('\n');
+
+    return toArrayBuffer(zipSync({
+        '[Content_Types].xml': strToU8(contentTypes),
+        '_rels/.rels': strToU8(rels),
+        '3D/3dmodel.model': strToU8(model),
+    }));
+}
+
+const formatFloat = (value: number): string => (+value.toFixed(6)).toString();
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -1,55 +1,178 @@
+/**
+ * Strange Attractors
+ *
+ * Curves for abstract mode: the path of a point through a chaotic flow,
+ * integrated with RK4. Every attractor is registered with its equations,
+ * the textbook coefficients, a time step and a starting point that lie on
+ * or near the attractor, so the panel can offer all of them the same way.
+ * The finished curve is turned upright and scaled to the tree height.
+ */
+
 export interface AttractorPoint {
     x: number;
     y: number;
     z: number;
 }
 
-export class AttractorGenerator {
-    // Thomas Attractor parameters
-    static thomas(x: number, y: number, z: number, b: number = 0.2081) {
-        return {
-            dx: -b * x + Math.sin(y),
-            dy: -b * y + Math.sin(z),
-            dz: -b * z + Math.sin(x)
-        };
-    }
+type Derivative = (x: number, y: number, z: number, c: Record<string, number>) => [number, number, number];
 
-    // Aizawa Attractor parameters
-    static aizawa(x: number, y: number, z: number, a: number = 0.95, b: number = 0.7, c: number = 0.6, d: number = 3.5, e: number = 0.25, f: number = 0.1) {
-        return {
-            dx: (z - b) * x - d * y,
-            dy: d * x + (z - b) * y,
-            dz: c + a * z - (Math.pow(z, 3) / 3) - (Math.pow(x, 2) + Math.pow(y, 2)) * (1 + e * z) + f * z * Math.pow(x, 3)
-        };
-    }
+export interface AttractorDefinition {
+    name: string;
+    coefficients: Record<string, number>;  // Defaults, by the names in the equations
+    dt: number;
+    start: [number, number, number];
+    up: 'y' | 'z';                        // Axis of the attractor that stands upright
+    derivative: Derivative;
+}
+
+export const ATTRACTORS: Record<string, AttractorDefinition> = {
+    thomas: {
+        name: 'Thomas',
+        coefficients: { b: 0.2081 },
+        dt: 0.02,
+        start: [0.1, 0.1, 0.1],
+        up: 'y',
+        derivative: (x, y, z, { b }) => [-b * x + Math.sin(y), -b * y + Math.sin(z), -b * z + Math.sin(x)],
+    },
+    aizawa: {
+        name: 'Aizawa',
+        coefficients: { a: 0.95, b: 0.7, c: 0.6, d: 3.5, e: 0.25, f: 0.1 },
+        dt: 0.02,
+        start: [0.1, 0.1, 0.1],
+        up: 'z',
+        derivative: (x, y, z, { a, b, c, d, e, f }) => [
+            (z - b) * x - d * y,
+            d * x + (z - b) * y,
+            c + a * z - Math.pow(z, 3) / 3 - (x * x + y * y) * (1 + e * z) + f * z * Math.pow(x, 3),
+        ],
+    },
+    lorenz: {
+        name: 'Lorenz',
+        coefficients: { sigma: 10, rho: 28, beta: 8 / 3 },
+        dt: 0.01,
+        start: [1, 1, 1],
+        up: 'z',
+        derivative: (x, y, z, { sigma, rho, beta }) => [sigma * (y - x), x * (rho - z) - y, x * y - beta * z],
+    },
+    rossler: {
+        name: 'Rössler',
+        coefficients: { a: 0.2, b: 0.2, c: 5.7 },
+        dt: 0.05,
+        start: [1, 1, 0],
+        up: 'z',
+        derivative: (x, y, z, { a, b, c }) => [-y - z, x + a * y, b + z * (x - c)],
+    },
+    halvorsen: {
+        name: 'Halvorsen',
+        coefficients: { a: 1.89 },
+        dt: 0.01,
+        start: [-1.48, -1.51, 2.04],
+        up: 'z',
+        derivative: (x, y, z, { a }) => [
+            -a * x - 4 * y - 4 * z - y * y,
+            -a * y - 4 * z - 4 * x - z * z,
+            -a * z - 4 * x - 4 * y - x * x,
+        ],
+    },
+    dadras: {
+        name: 'Dadras',
+        coefficients: { a: 3, b: 2.7, c: 1.7, d: 2, e: 9 },
+        dt: 0.01,
+        start: [1, 1, 1],
+        up: 'z',
+        derivative: (x, y, z, { a, b, c, d, e }) => [y - a * x + b * y * z, c * y - x * z + z, d * x * y - e * z],
+    },
+    chen: {
+        name: 'Chen',
+        coefficients: { a: 35, b: 3, c: 28 },
+        dt: 0.002,
+        start: [-10, 0, 37],
+        up: 'z',
+        derivative: (x, y, z, { a, b, c }) => [a * (y - x), (c - a) * x - x * z + c * y, x * y - b * z],
+    },
+    sprott: {
+        name: 'Sprott',
+        coefficients: { a: 2.07, b: 1.79 },
+        dt: 0.02,
+        start: [0.63, 0.47, -0.54],
+        up: 'z',
+        derivative: (x, y, z, { a, b }) => [y + a * x * y + x * z, 1 - b * x * x + y * z, x - x * x - y * y],
+    },
+    fourWing: {
+        name: 'Four-Wing',
+        coefficients: { a: 0.2, b: 0.01, c: -0.4 },
+        dt: 0.05,
+        start: [1.3, -0.18, 0.01],
+        up: 'z',
+        derivative: (x, y, z, { a, b, c }) => [a * x + y * z, b * x + c * y - x * z, -z - x * y],
+    },
+};
+
+export interface AttractorOptions {
+    coefficients?: Record<string, number>;  // Missing coefficients keep their defaults
+    start?: [number, number, number];
+    transient?: number;                     // Steps integrated before the curve starts
+}
+
+export class AttractorGenerator {
+    static generate(type: string, iterations: number, dt: number, options: AttractorOptions = {}): AttractorPoint[] {
+        const attractor = ATTRACTORS[type];
+        if (!attractor) throw new Error(`Unknown attractor: ${type}`);
+        const c = { ...attractor.coefficients, ...options.coefficients };
+        const f = (x: number, y: number, z: number) => attractor.derivative(x, y, z, c);
 
-    static generate(type: 'thomas' | 'aizawa', iterations: number, dt: number): AttractorPoint[] {
         const points: AttractorPoint[] = [];
-        let x = 0.1, y = 0.1, z = 0.1;
+        let [x, y, z] = options.start ?? attractor.start;
+        const transient = Math.max(0, Math.floor(options.transient ?? 0));
 
-        for (let i = 0; i < iterations; i++) {
+        for (let i = 0; i < transient + iterations; i++) {
             // RK4 Integration
-            const k1 = type === 'thomas' ? this.thomas(x, y, z) : this.aizawa(x, y, z);
+            const k1 = f(x, y, z);
+            const k2 = f(x + k1[0] * dt / 2, y + k1[1] * dt / 2, z + k1[2] * dt / 2);
+            const k3 = f(x + k2[0] * dt / 2, y + k2[1] * dt / 2, z + k2[2] * dt / 2);
+            const k4 = f(x + k3[0] * dt, y + k3[1] * dt, z + k3[2] * dt);
 
-            const k2 = type === 'thomas'
-                ? this.thomas(x + k1.dx * dt / 2, y + k1.dy * dt / 2, z + k1.dz * dt / 2)
-                : this.aizawa(x + k1.dx * dt / 2, y + k1.dy * dt / 2, z + k1.dz * dt / 2);
+            x += (dt / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]);
+            y += (dt / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]);
+            z += (dt / 6) * (k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2]);
 
-            const k3 = type === 'thomas'
-                ? this.thomas(x + k2.dx * dt / 2, y + k2.dy * dt / 2, z + k2.dz * dt / 2)
-                : this.aizawa(x + k2.dx * dt / 2, y + k2.dy * dt / 2, z + k2.dz * dt / 2);
+            // Coefficients or a step outside the attractor's range fly off to infinity
+            if (![x, y, z].every(isFinite)) {
+                console.log(`[Attractors] ${attractor.name} diverged after ${i} steps`);
+                break;
+            }
+            if (i >= transient) points.push({ x, y, z });
+        }
 
-            const k4 = type === 'thomas'
-                ? this.thomas(x + k3.dx * dt, y + k3.dy * dt, z + k3.dz * dt)
-                : this.aizawa(x + k3.dx * dt, y + k3.dy * dt, z + k3.dz * dt);
+        return points;
+    }
 
-            x += (dt / 6) * (k1.dx + 2 * k2.dx + 2 * k3.dx + k4.dx);
-            y += (dt / 6) * (k1.dy + 2 * k2.dy + 2 * k3.dy + k4.dy);
-            z += (dt / 6) * (k1.dz + 2 * k2.dz + 2 * k3.dz + k4.dz);
+    /**
+     * Stand a curve upright on the ground: the attractor's own up axis
+     * becomes Y, the curve is centred over the origin and scaled to `height`.
+     */
+    static normalize(points: AttractorPoint[], type: string, height: number): AttractorPoint[] {
+        if (points.length === 0) return points;
+        const up = ATTRACTORS[type]?.up ?? 'y';
+        // Rotate a quarter turn about X, keeping the curve's handedness
+        const upright = up === 'z' ? points.map(({ x, y, z }) => ({ x, y: z, z: -y })) : points;
 
-            points.push({ x, y, z });
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        for (const point of upright) {
+            for (const axis of ['x', 'y', 'z'] as const) {
+                min[axis] = Math.min(min[axis], point[axis]);
+                max[axis] = Math.max(max[axis], point[axis]);
+            }
         }
 
-        return points;
+        const scale = height / Math.max(max.y - min.y, 1e-6);
+        const centerX = (min.x + max.x) / 2;
+        const centerZ = (min.z + max.z) / 2;
+        return upright.map(({ x, y, z }) => ({
+            x: (x - centerX) * scale,
+            y: (y - min.y) * scale,
+            z: (z - centerZ) * scale,
+        }));
     }
 }
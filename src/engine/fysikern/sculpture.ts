@@ -0,0 +1,242 @@
+/**
+ * Attractor Sculptures
+ *
+ * Turns an attractor curve into a piece that prints as one body. The raw
+ * curve is a few thousand RK4 steps, spaced by the speed of the flow; it is
+ * resampled to even steps along its length, smoothed, and given a radius
+ * that swells where the flow is slow or turns tightly. The path stands on
+ * a column from the footing up to its lowest point. The worker sweeps the
+ * path as one continuous tube (in pieces where it passes itself, so it
+ * never cuts through its own wall) and fillets the joint with the column
+ * like a fork of a tree.
+ */
+
+import type { TreeSettings } from '../../store/useTreeStore';
+import type { BranchSegment } from '../botanisten/branchGraph';
+import { solidOptionsFromSettings, type SolidOptions } from '../solidOptions';
+import { minModelRadius } from '../printability';
+import { AttractorGenerator, type AttractorPoint } from './attractors';
+
+export type SculptureRadiusMode = 'constant' | 'speed' | 'curvature';
+
+export interface Sculpture {
+    branches: BranchSegment[];  // The path from start to end, then the column
+    solidOptions: SolidOptions;
+}
+
+type Vec3 = [number, number, number];
+
+// Sample spacing along the path, relative to the tube radius
+const SAMPLE_SPACING = 0.75;
+// Very long curves get a wider spacing instead of more samples
+const MAX_SAMPLES = 6000;
+// The tube radius stays below this share of the radius of the turn
+const TURN_SHARE = 0.9;
+// Extra smoothing passes for turns too tight for a printable tube
+const MAX_RELAX_PASSES = 50;
+// Column radius at the footing, relative to the tube radius
+const COLUMN_RADIUS_SCALE = 1.5;
+// The column takes at most this share of the height
+const MAX_STAND_SHARE = 0.5;
+// Speed or curvature is spread between these percentiles, so a few outliers do not set the range
+const SPREAD_PERCENTILES: [number, number] = [0.05, 0.95];
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Even samples along a polyline, each with the value of the step it falls in
+ */
+function resample(points: Vec3[], values: number[], spacing: number): { positions: Vec3[]; values: number[] } {
+    const positions: Vec3[] = [points[0]];
+    const sampled: number[] = [values[0]];
+    let carried = 0; // Path length since the last sample
+
+    for (let i = 0; i < points.length - 1; i++) {
+        const step = distance(points[i], points[i + 1]);
+        let along = spacing - carried;
+        while (along <= step) {
+            const t = along / step;
+            positions.push([
+                points[i][0] + (points[i + 1][0] - points[i][0]) * t,
+                points[i][1] + (points[i + 1][1] - points[i][1]) * t,
+                points[i][2] + (points[i + 1][2] - points[i][2]) * t,
+            ]);
+            sampled.push(values[i]);
+            along += spacing;
+        }
+        carried = step - (along - spacing);
+    }
+
+    // Finish at the end of the curve unless the last sample is almost there
+    const last = points[points.length - 1];
+    if (distance(positions[positions.length - 1], last) > spacing * 0.25) {
+        positions.push(last);
+        sampled.push(values[values.length - 1]);
+    }
+    return { positions, values: sampled };
+}
+
+// Laplacian smoothing, the ends stay in place
+const smooth = (positions: Vec3[], passes: number): Vec3[] => {
+    let current = positions;
+    for (let pass = 0; pass < passes; pass++) {
+        current = current.map((point, i) => {
+            if (i === 0 || i === current.length - 1) return point;
+            const [a, b] = [current[i - 1], current[i + 1]];
+            return [
+                (a[0] + 2 * point[0] + b[0]) / 4,
+                (a[1] + 2 * point[1] + b[1]) / 4,
+                (a[2] + 2 * point[2] + b[2]) / 4,
+            ];
+        });
+    }
+    return current;
+};
+
+// Turning angle per unit length at every sample
+const curvatures = (positions: Vec3[]): number[] => {
+    const inner = positions.map((point, i) => {
+        if (i === 0 || i === positions.length - 1) return 0;
+        const before = distance(positions[i - 1], point);
+        const after = distance(point, positions[i + 1]);
+        if (before < 1e-9 || after < 1e-9) return 0;
+        const cos = (
+            (point[0] - positions[i - 1][0]) * (positions[i + 1][0] - point[0]) +
+            (point[1] - positions[i - 1][1]) * (positions[i + 1][1] - point[1]) +
+            (point[2] - positions[i - 1][2]) * (positions[i + 1][2] - point[2])
+        ) / (before * after);
+        return Math.acos(Math.max(-1, Math.min(1, cos))) / ((before + after) / 2);
+    });
+    if (inner.length > 2) {
+        inner[0] = inner[1];
+        inner[inner.length - 1] = inner[inner.length - 2];
+    }
+    return inner;
+};
+
+/**
+ * Smooth the path around turns so tight that even a tube of the printable
+ * minimum radius would fold on their inside. Only the samples near such a
+ * turn move, the rest of the curve keeps its shape.
+ */
+function relaxTightTurns(positions: Vec3[], minRadius: number): Vec3[] {
+    let current = positions;
+    for (let pass = 0; pass < MAX_RELAX_PASSES; pass++) {
+        const tight = new Set<number>();
+        curvatures(current).forEach((bend, i) => {
+            if (minRadius * bend <= TURN_SHARE) return;
+            for (let j = i - 2; j <= i + 2; j++) tight.add(j);
+        });
+        if (tight.size === 0) break;
+
+        const previous = current;
+        current = previous.map((point, i) => {
+            if (!tight.has(i) || i === 0 || i === previous.length - 1) return point;
+            const [a, b] = [previous[i - 1], previous[i + 1]];
+            return [
+                (a[0] + 2 * point[0] + b[0]) / 4,
+                (a[1] + 2 * point[1] + b[1]) / 4,
+                (a[2] + 2 * point[2] + b[2]) / 4,
+            ];
+        });
+    }
+    return current;
+}
+
+// Position of every value between the spread percentiles, 0-1
+const spread = (values: number[]): number[] => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const low = sorted[Math.floor(SPREAD_PERCENTILES[0] * (sorted.length - 1))];
+    const high = sorted[Math.floor(SPREAD_PERCENTILES[1] * (sorted.length - 1))];
+    if (high - low < 1e-12) return values.map(() => 0.5);
+    return values.map((value) => Math.max(0, Math.min(1, (value - low) / (high - low))));
+};
+
+/**
+ * Tube radius at every sample. Slow flow or tight turns make it thicker,
+ * fast flow or straight runs thinner, never below the printable minimum.
+ * The limit of the turn, where the inside of the tube would fold over
+ * itself, is applied last (relaxTightTurns keeps it above the minimum).
+ */
+function tubeRadii(positions: Vec3[], speeds: number[], settings: TreeSettings, minRadius: number): number[] {
+    const radius = settings.sculptureRadius;
+    const variation = Math.max(0, Math.min(0.9, settings.sculptureRadiusVariation));
+    const bends = curvatures(positions);
+
+    let factors = positions.map(() => 1);
+    if (settings.sculptureRadiusMode === 'speed') {
+        factors = spread(speeds).map((t) => 1 + variation * (1 - 2 * t));
+    } else if (settings.sculptureRadiusMode === 'curvature') {
+        factors = spread(bends).map((t) => 1 + variation * (2 * t - 1));
+    }
+
+    return factors.map((factor, i) => {
+        const turnRadius = bends[i] > 0 ? 1 / bends[i] : Infinity;
+        return Math.min(Math.max(radius * factor, minRadius), turnRadius * TURN_SHARE);
+    });
+}
+
+/**
+ * The attractor of the settings as a sculpture of the tree height,
+ * with the solid options it is built with
+ */
+export function attractorSculpture(settings: TreeSettings): Sculpture {
+    const options = solidOptionsFromSettings(settings);
+    const stand = Math.max(0, Math.min(settings.sculptureStandHeight, settings.treeHeight * MAX_STAND_SHARE));
+
+    const raw: AttractorPoint[] = AttractorGenerator.normalize(
+        AttractorGenerator.generate(settings.attractorType, settings.attractorIterations, settings.attractorDt, {
+            coefficients: settings.attractorCoefficients,
+            start: settings.attractorStart,
+            transient: settings.attractorTransient,
+        }),
+        settings.attractorType,
+        settings.treeHeight - stand
+    );
+    if (raw.length < 2) return { branches: [], solidOptions: options };
+
+    // With a fixed time step, the length of a step is the speed of the flow
+    const points = raw.map(({ x, y, z }): Vec3 => [x, y + stand, z]);
+    const steps = points.slice(1).map((point, i) => distance(points[i], point));
+    steps.push(steps[steps.length - 1]);
+    const pathLength = steps.reduce((sum, step) => sum + step, 0) - steps[steps.length - 1];
+
+    const spacing = Math.max(settings.sculptureRadius * SAMPLE_SPACING, pathLength / MAX_SAMPLES);
+    const sampled = resample(points, steps, spacing);
+    const minRadius = minModelRadius(options.printability);
+    const positions = relaxTightTurns(smooth(sampled.positions, settings.sculptureSmoothing), minRadius);
+    const radii = tubeRadii(positions, sampled.values, settings, minRadius);
+
+    const branches: BranchSegment[] = positions.slice(1).map((end, i) => ({
+        start: positions[i],
+        end,
+        r1: radii[i],
+        r2: radii[i + 1],
+    }));
+
+    // Column from the footing, tapering to the tube at the lowest point
+    const lowest = positions.reduce((best, point, i) => point[1] < positions[best][1] ? i : best, 0);
+    const [footX, lowestY, footZ] = positions[lowest];
+    if (stand > 0 && lowestY > 0) {
+        branches.push({
+            start: [footX, 0, footZ],
+            end: positions[lowest],
+            r1: Math.max(settings.sculptureRadius * COLUMN_RADIUS_SCALE, radii[lowest]),
+            r2: radii[lowest],
+        });
+    }
+
+    console.log('[Sculpture] Path of', positions.length, 'samples,', pathLength.toFixed(1), 'm, column', stand > 0 ? `${lowestY.toFixed(2)} m` : 'none');
+
+    return {
+        branches,
+        solidOptions: {
+            ...options,
+            // A sculpture always stands on a footing, a disc unless another is chosen
+            base: { ...options.base, type: options.base.type === 'none' ? 'disc' : options.base.type, center: [footX, footZ] },
+            meshing: { ...options.meshing, mode: 'smooth', splitAtSelfContact: true },
+            // A pruned stretch would leave the path in pieces
+            printability: { ...options.printability, thinBranches: 'thicken' },
+        },
+    };
+}
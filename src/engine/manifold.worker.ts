@@ -1,9 +1,16 @@
-import initManifold from 'manifold-3d';
+import initManifold, { type Manifold } from 'manifold-3d';
+import { exportObjects, scaleMeshForExport, type ExportFormat } from './exporters';
+import { analyzePrintability, type PrintAnalysisParams } from './printAnalysis';
+import type { BranchSegment } from './botanisten/branchGraph';
+import type { BaseOptions, MeshingOptions } from './solidOptions';
+import { enforcePrintabilityOnSegments, type PrintabilityPolicy } from './printability';
+import { buildSmoothBranches } from './smoothMesher';
 
 let manifold: any;
 let mModule: any;
 let Manifold: any;
 let currentSolid: any = null; // Store for export
+let currentBranches: BranchSegment[] = []; // Branches behind currentSolid, for analysis
 
 // Types for foliage clusters
 interface FoliageCluster {
@@ -87,6 +94,38 @@ const createFoliageCluster = (cluster: FoliageCluster): any => {
     }
 };
 
+// Create the base below y=0, overlapping the trunk slightly so they fuse
+const createBase = (base: BaseOptions): Manifold | null => {
+    if (base.type === 'none') return null;
+
+    // Printed millimetres to model metres at this scale
+    const toModel = (mm: number) => mm * base.modelScale / 1000;
+    const overlap = toModel(0.2);
+    const [cx, cz] = base.center ?? [0, 0];
+
+    switch (base.type) {
+        case 'disc': {
+            const height = toModel(base.height);
+            const disc = Manifold.cylinder(height + overlap, toModel(base.diameter) / 2, toModel(base.diameter) / 2, 64);
+            return disc.rotate([-90, 0, 0]).translate([cx, -height, cz]);
+        }
+        case 'square': {
+            const height = toModel(base.height);
+            const side = toModel(base.diameter);
+            const depth = toModel(base.depth ?? base.diameter);
+            return Manifold.cube([side, height + overlap, depth], true).translate([cx, (overlap - height) / 2, cz]);
+        }
+        case 'pin': {
+            const length = toModel(base.pinLength);
+            const radius = toModel(base.pinDiameter) / 2;
+            const pin = Manifold.cylinder(length + overlap, radius, radius, 32);
+            return pin.rotate([-90, 0, 0]).translate([cx, -length, cz]);
+        }
+        default:
+            return null;
+    }
+};
+
 const createBranch = (start: number[], end: number[], radiusStart: number, radiusEnd: number) => {
     const dx = end[0] - start[0];
     const dy = end[1] - start[1];
@@ -136,89 +175,50 @@ const createBranch = (start: number[], end: number[], radiusStart: number, radiu
     return cyl.translate([start[0], start[1], start[2]]);
 };
 
-// Convert mesh to binary STL format
-const meshToSTL = (mesh: any): ArrayBuffer => {
-    const numProp = mesh.numProp || 3;
-    const numVerts = mesh.vertProperties.length / numProp;
-    const numTris = mesh.triVerts.length / 3;
-
-    // Extract vertices
-    const vertices: number[][] = [];
-    for (let i = 0; i < numVerts; i++) {
-        vertices.push([
-            mesh.vertProperties[i * numProp + 0],
-            mesh.vertProperties[i * numProp + 1],
-            mesh.vertProperties[i * numProp + 2]
-        ]);
+// Union branches, foliage and base into one solid, or null if there is nothing to build
+const buildTreeSolid = (
+    branches: BranchSegment[],
+    foliage: FoliageCluster[] | undefined,
+    base: BaseOptions | undefined,
+    meshing: MeshingOptions | undefined,
+    printability: PrintabilityPolicy | undefined
+): Manifold | null => {
+    const solids = [];
+
+    // The generators already follow the policy; this catches any other source of branches
+    const printable = printability ? enforcePrintabilityOnSegments(branches, printability) : branches;
+
+    // Create branch geometry
+    if (meshing?.mode === 'smooth') {
+        solids.push(...buildSmoothBranches(mModule, printable, {
+            filletScale: meshing.filletScale,
+            minEdgeLength: 0.0002 * meshing.modelScale,
+            splitAtSelfContact: meshing.splitAtSelfContact,
+        }));
+    } else {
+        for (const b of printable) {
+            const segment = createBranch(b.start, b.end, b.r1, b.r2);
+            if (segment) solids.push(segment);
+        }
     }
 
-    // Binary STL format:
-    // 80 bytes header
-    // 4 bytes: number of triangles (uint32)
-    // For each triangle:
-    //   12 bytes: normal vector (3 floats)
-    //   36 bytes: 3 vertices (9 floats)
-    //   2 bytes: attribute byte count (uint16, typically 0)
-
-    const headerSize = 80;
-    const triangleSize = 50; // 12 + 36 + 2
-    const bufferSize = headerSize + 4 + (numTris * triangleSize);
-    const buffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(buffer);
-
-    // Header (80 bytes, can be any text)
-    const header = 'Binary STL exported from Tradet Tree Generator';
-    for (let i = 0; i < 80; i++) {
-        view.setUint8(i, i < header.length ? header.charCodeAt(i) : 0);
+    // Create foliage geometry if provided
+    if (foliage && Array.isArray(foliage)) {
+        console.log('[Worker] Processing', foliage.length, 'foliage clusters');
+        for (const cluster of foliage) {
+            const foliageGeom = createFoliageCluster(cluster);
+            if (foliageGeom) solids.push(foliageGeom);
+        }
     }
 
-    // Number of triangles
-    view.setUint32(80, numTris, true); // little-endian
-
-    let offset = 84;
-
-    for (let t = 0; t < numTris; t++) {
-        const i0 = mesh.triVerts[t * 3 + 0];
-        const i1 = mesh.triVerts[t * 3 + 1];
-        const i2 = mesh.triVerts[t * 3 + 2];
-
-        const v0 = vertices[i0];
-        const v1 = vertices[i1];
-        const v2 = vertices[i2];
-
-        // Calculate face normal
-        const e1 = [v1[0] - v0[0], v1[1] - v0[1], v1[2] - v0[2]];
-        const e2 = [v2[0] - v0[0], v2[1] - v0[1], v2[2] - v0[2]];
-        const nx = e1[1] * e2[2] - e1[2] * e2[1];
-        const ny = e1[2] * e2[0] - e1[0] * e2[2];
-        const nz = e1[0] * e2[1] - e1[1] * e2[0];
-        const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
-
-        // Normal (3 floats)
-        view.setFloat32(offset, len > 0 ? nx / len : 0, true); offset += 4;
-        view.setFloat32(offset, len > 0 ? ny / len : 0, true); offset += 4;
-        view.setFloat32(offset, len > 0 ? nz / len : 0, true); offset += 4;
-
-        // Vertex 1
-        view.setFloat32(offset, v0[0], true); offset += 4;
-        view.setFloat32(offset, v0[1], true); offset += 4;
-        view.setFloat32(offset, v0[2], true); offset += 4;
-
-        // Vertex 2
-        view.setFloat32(offset, v1[0], true); offset += 4;
-        view.setFloat32(offset, v1[1], true); offset += 4;
-        view.setFloat32(offset, v1[2], true); offset += 4;
-
-        // Vertex 3
-        view.setFloat32(offset, v2[0], true); offset += 4;
-        view.setFloat32(offset, v2[1], true); offset += 4;
-        view.setFloat32(offset, v2[2], true); offset += 4;
-
-        // Attribute byte count
-        view.setUint16(offset, 0, true); offset += 2;
-    }
+    if (solids.length === 0) return null;
+
+    // Base is added last so it is only built for actual geometry
+    const baseSolid = base ? createBase(base) : null;
+    if (baseSolid) solids.push(baseSolid);
 
-    return buffer;
+    console.log('[Worker] Performing union of', solids.length, 'solids');
+    return binaryUnion(solids);
 };
 
 self.onmessage = async (e) => {
@@ -233,25 +233,10 @@ self.onmessage = async (e) => {
         if (!manifold) return;
 
         try {
-            const { branches, foliage } = payload;
-            const solids = [];
+            const { branches, foliage, base, meshing, printability } = payload;
+            const solid = buildTreeSolid(branches, foliage, base, meshing, printability);
 
-            // Create branch geometry
-            for (const b of branches) {
-                const segment = createBranch(b.start, b.end, b.r1, b.r2);
-                if (segment) solids.push(segment);
-            }
-
-            // Create foliage geometry if provided
-            if (foliage && Array.isArray(foliage)) {
-                console.log('[Worker] Processing', foliage.length, 'foliage clusters');
-                for (const cluster of foliage) {
-                    const foliageGeom = createFoliageCluster(cluster);
-                    if (foliageGeom) solids.push(foliageGeom);
-                }
-            }
-
-            if (solids.length === 0) {
+            if (!solid) {
                 self.postMessage({ type: 'ERROR', payload: 'No geometry generated' });
                 return;
             }
@@ -261,8 +246,8 @@ self.onmessage = async (e) => {
                 currentSolid.delete();
             }
 
-            console.log('[Worker] Performing union of', solids.length, 'solids');
-            currentSolid = binaryUnion(solids);
+            currentSolid = solid;
+            currentBranches = branches;
             const mesh = currentSolid.getMesh();
 
             // Extract vertex positions from interleaved vertProperties array
@@ -289,7 +274,62 @@ self.onmessage = async (e) => {
         }
     }
 
-    if (type === 'EXPORT_STL') {
+    // Batch export: build a solid for one variant without replacing the current tree
+    if (type === 'BUILD_SOLID') {
+        const { id, branches, foliage, base, meshing, printability, modelScale } = payload;
+        if (!manifold) {
+            self.postMessage({ type: 'SOLID_READY', payload: { id, error: 'Manifold-3D is not ready yet' } });
+            return;
+        }
+
+        try {
+            const solid = buildTreeSolid(branches, foliage, base, meshing, printability);
+            if (!solid) {
+                self.postMessage({ type: 'SOLID_READY', payload: { id, error: 'No geometry generated' } });
+                return;
+            }
+
+            const mesh = scaleMeshForExport(solid.getMesh(), modelScale);
+            solid.delete();
+
+            self.postMessage({
+                type: 'SOLID_READY',
+                payload: { id, mesh }
+            }, { transfer: [mesh.vertProperties.buffer] });
+        } catch (err) {
+            self.postMessage({ type: 'SOLID_READY', payload: { id, error: (err as Error).message } });
+        }
+    }
+
+    if (type === 'ANALYZE') {
+        if (!currentSolid) return;
+
+        try {
+            const params: PrintAnalysisParams = payload;
+
+            // Count disconnected parts, then free them
+            const parts = currentSolid.decompose();
+            const components = parts.length;
+            for (const part of parts) part.delete();
+
+            const report = analyzePrintability(currentSolid.getMesh(), currentBranches, {
+                volume: currentSolid.volume(),
+                surfaceArea: currentSolid.surfaceArea(),
+                components,
+                bounds: currentSolid.boundingBox(),
+            }, params);
+
+            console.log('[Worker] Analysis:', report.thinSegments.length, 'thin segments,', components, 'components');
+            self.postMessage({
+                type: 'ANALYSIS_READY',
+                payload: report
+            }, { transfer: [report.overhangTriangles.buffer] });
+        } catch (err) {
+            self.postMessage({ type: 'ERROR', payload: 'Analysis failed: ' + (err as Error).message });
+        }
+    }
+
+    if (type === 'EXPORT_MODEL') {
         if (!currentSolid) {
             self.postMessage({ type: 'ERROR', payload: 'No tree generated yet. Generate a tree first.' });
             return;
@@ -297,33 +337,24 @@ self.onmessage = async (e) => {
 
         try {
             // Get scale from payload (modelScale like 200 for 1:200)
-            // We need to convert meters to the print size: divide by scale
+            // Internal units are meters, output is meters / scale
             const modelScale = payload?.modelScale ?? 1;
-            const scaleFactor = 1 / modelScale;
-
-            const mesh = currentSolid.getMesh();
-
-            // Scale vertices for export (internal units are meters, output in meters/scale)
-            // e.g. 15m tree at 1:200 → 0.075m = 75mm in the STL
-            const scaledVertProperties = new Float32Array(mesh.vertProperties.length);
-            for (let i = 0; i < mesh.vertProperties.length; i++) {
-                scaledVertProperties[i] = mesh.vertProperties[i] * scaleFactor;
-            }
-
-            // Create a scaled mesh copy for export
-            const scaledMesh = {
-                ...mesh,
-                vertProperties: scaledVertProperties
-            };
+            const format: ExportFormat = payload?.format ?? 'stl';
+            const seed: number = payload?.seed ?? 0;
 
-            const stlBuffer = meshToSTL(scaledMesh);
+            const mesh = scaleMeshForExport(currentSolid.getMesh(), modelScale);
+            const buffer = exportObjects(
+                [{ name: 'tree', mesh }],
+                format,
+                `Tradet tree ${payload?.engine ?? ''} seed ${seed} 1:${modelScale}`
+            );
 
             self.postMessage({
-                type: 'STL_READY',
-                payload: stlBuffer
-            }, { transfer: [stlBuffer] }); // Transfer ownership for efficiency
+                type: 'EXPORT_READY',
+                payload: { buffer, format, seed }
+            }, { transfer: [buffer] }); // Transfer ownership for efficiency
         } catch (err: any) {
-            self.postMessage({ type: 'ERROR', payload: 'STL export failed: ' + err.message });
+            self.postMessage({ type: 'ERROR', payload: 'Export failed: ' + err.message });
         }
     }
 };
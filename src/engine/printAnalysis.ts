@@ -0,0 +1,114 @@
+/**
+ * Printability Analysis
+ *
+ * Checks the unioned tree solid against FDM printing constraints:
+ * - Branches thinner than the printability policy allows (see printability.ts)
+ * - Overhanging faces steeper than the configured angle from vertical
+ * - Disconnected parts (from Manifold's decompose)
+ * - Volume, surface area, size and filament weight
+ *
+ * All reported lengths are printed millimetres at the current model scale.
+ */
+
+import type { BranchSegment } from './botanisten/branchGraph';
+import type { ExportMesh } from './exporters';
+import { isThinSegment, minPrintedDiameter, type PrintabilityPolicy } from './printability';
+
+// Typical PLA density (g/cm³)
+const FILAMENT_DENSITY = 1.24;
+
+export interface PrintAnalysisParams {
+    printability: PrintabilityPolicy;
+    overhangAngle: number;   // Degrees from vertical that print without support
+}
+
+// Measurements of the solid in model units (metres), taken by the worker
+export interface SolidStats {
+    volume: number;
+    surfaceArea: number;
+    components: number;
+    bounds: { min: [number, number, number]; max: [number, number, number] };
+}
+
+export interface PrintReport {
+    minDiameter: number;            // mm, from the printability policy
+    thinSegments: number[];         // Indices into the branch list
+    overhangArea: number;           // mm²
+    overhangTriangles: Uint32Array; // Triangle indices into the mesh
+    components: number;
+    volume: number;                 // mm³
+    surfaceArea: number;            // mm²
+    boundingBox: { min: [number, number, number]; max: [number, number, number] }; // mm
+    filamentGrams: number;
+}
+
+/**
+ * Analyse a unioned tree mesh and the branches it was built from
+ */
+export function analyzePrintability(
+    mesh: ExportMesh,
+    branches: BranchSegment[],
+    stats: SolidStats,
+    params: PrintAnalysisParams
+): PrintReport {
+    const mmPerUnit = 1000 / params.printability.modelScale;
+    const minDiameter = minPrintedDiameter(params.printability);
+
+    // Branches whose printed diameter is below the policy's minimum
+    const thinSegments: number[] = [];
+    branches.forEach((branch, index) => {
+        if (isThinSegment(branch, params.printability)) thinSegments.push(index);
+    });
+
+    // Downward-facing triangles steeper than the overhang angle.
+    // Faces on the build plate (lowest Y) are supported and skipped.
+    const overhangLimit = Math.sin(params.overhangAngle * (Math.PI / 180));
+    const plateY = stats.bounds.min[1];
+    const plateTolerance = 1e-4;
+    const overhangTriangles: number[] = [];
+    let overhangArea = 0;
+
+    const vertex = (index: number) => [
+        mesh.vertProperties[index * mesh.numProp + 0],
+        mesh.vertProperties[index * mesh.numProp + 1],
+        mesh.vertProperties[index * mesh.numProp + 2],
+    ];
+
+    const numTris = mesh.triVerts.length / 3;
+    for (let t = 0; t < numTris; t++) {
+        const v0 = vertex(mesh.triVerts[t * 3 + 0]);
+        const v1 = vertex(mesh.triVerts[t * 3 + 1]);
+        const v2 = vertex(mesh.triVerts[t * 3 + 2]);
+
+        const e1 = [v1[0] - v0[0], v1[1] - v0[1], v1[2] - v0[2]];
+        const e2 = [v2[0] - v0[0], v2[1] - v0[1], v2[2] - v0[2]];
+        const nx = e1[1] * e2[2] - e1[2] * e2[1];
+        const ny = e1[2] * e2[0] - e1[0] * e2[2];
+        const nz = e1[0] * e2[1] - e1[1] * e2[0];
+        const doubleArea = Math.sqrt(nx * nx + ny * ny + nz * nz);
+        if (doubleArea === 0) continue;
+
+        const onPlate = Math.max(v0[1], v1[1], v2[1]) - plateY < plateTolerance;
+        if (!onPlate && -ny / doubleArea > overhangLimit) {
+            overhangTriangles.push(t);
+            overhangArea += doubleArea / 2;
+        }
+    }
+
+    const volume = stats.volume * mmPerUnit ** 3;
+
+    return {
+        minDiameter,
+        thinSegments,
+        overhangArea: overhangArea * mmPerUnit ** 2,
+        overhangTriangles: new Uint32Array(overhangTriangles),
+        components: stats.components,
+        volume,
+        surfaceArea: stats.surfaceArea * mmPerUnit ** 2,
+        boundingBox: {
+            min: stats.bounds.min.map(value => value * mmPerUnit) as [number, number, number],
+            max: stats.bounds.max.map(value => value * mmPerUnit) as [number, number, number],
+        },
+        filamentGrams: (volume / 1000) * FILAMENT_DENSITY,
+    };
+}
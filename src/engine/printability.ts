@@ -0,0 +1,106 @@
+/**
+ * Printability Policy
+ *
+ * One definition of "thick enough to print", shared by the generators (via
+ * engines.ts), the worker and the print analysis. A branch needs at least
+ * minWalls perimeters on each side and two layers when it lies flat; every
+ * branch whose printed diameter falls below that is either thickened to the
+ * minimum or pruned together with everything that grows from it.
+ */
+
+import type { TreeSettings } from '../store/useTreeStore';
+import {
+    addBranchNode, createBranchGraph, graphToSegments, segmentsToGraph,
+    type BranchGraph, type BranchSegment,
+} from './botanisten/branchGraph';
+
+export type ThinBranchHandling = 'thicken' | 'prune';
+
+export interface PrintabilityPolicy {
+    nozzleDiameter: number;          // mm
+    minWalls: number;                // Perimeters on each side of a branch
+    layerHeight: number;             // mm
+    modelScale: number;              // e.g. 500 for 1:500
+    thinBranches: ThinBranchHandling;
+}
+
+export function policyFromSettings(settings: TreeSettings): PrintabilityPolicy {
+    return {
+        nozzleDiameter: settings.nozzleDiameter,
+        minWalls: settings.minWallCount,
+        layerHeight: settings.layerHeight,
+        modelScale: settings.modelScale,
+        thinBranches: settings.thinBranchHandling,
+    };
+}
+
+/**
+ * Smallest branch diameter that prints as a solid strand (mm)
+ */
+export function minPrintedDiameter(policy: Pick<PrintabilityPolicy, 'nozzleDiameter' | 'minWalls' | 'layerHeight'>): number {
+    return Math.max(policy.minWalls * 2 * policy.nozzleDiameter, policy.layerHeight * 2);
+}
+
+/**
+ * Smallest branch radius in model units (metres)
+ */
+export function minModelRadius(policy: PrintabilityPolicy): number {
+    return (minPrintedDiameter(policy) / 2) * policy.modelScale / 1000;
+}
+
+// Rounding slack so radii clamped to the minimum are not reported as thin
+const isThin = (radius: number, minRadius: number) => radius < minRadius * (1 - 1e-9);
+
+/**
+ * Thicken or prune every branch below the policy's minimum
+ */
+export function enforcePrintability(graph: BranchGraph, policy: PrintabilityPolicy): BranchGraph {
+    const minRadius = minModelRadius(policy);
+
+    if (policy.thinBranches === 'thicken') {
+        for (const node of graph.nodes) {
+            node.radius = Math.max(node.radius, minRadius);
+            if (node.baseRadius !== undefined) node.baseRadius = Math.max(node.baseRadius, minRadius);
+        }
+        return graph;
+    }
+
+    // Copy the graph without thin segments; their descendants lose their parent and go too
+    const pruned = createBranchGraph();
+    const newIds = new Array<number | null>(graph.nodes.length).fill(null);
+    for (const node of graph.nodes) {
+        if (node.parentId === null) {
+            if (!isThin(node.radius, minRadius)) {
+                newIds[node.id] = addBranchNode(pruned, null, node.position, node.radius, { order: node.order });
+            }
+            continue;
+        }
+
+        const parent = graph.nodes[node.parentId];
+        const parentId = newIds[parent.id];
+        const r1 = node.baseRadius ?? parent.radius;
+        if (parentId === null || isThin(Math.min(r1, node.radius), minRadius)) continue;
+
+        newIds[node.id] = addBranchNode(pruned, parentId, node.position, node.radius, {
+            baseRadius: r1,
+            lateral: node.order > parent.order,
+        });
+    }
+
+    console.log('[Printability] Pruned', graph.nodes.length - pruned.nodes.length, 'of', graph.nodes.length, 'nodes');
+    return pruned;
+}
+
+/**
+ * Same as enforcePrintability for a flat segment list
+ */
+export function enforcePrintabilityOnSegments(segments: BranchSegment[], policy: PrintabilityPolicy): BranchSegment[] {
+    return graphToSegments(enforcePrintability(segmentsToGraph(segments), policy));
+}
+
+/**
+ * Whether a segment is thinner than the policy allows anywhere along it
+ */
+export function isThinSegment(segment: BranchSegment, policy: PrintabilityPolicy): boolean {
+    return isThin(Math.min(segment.r1, segment.r2), minModelRadius(policy));
+}
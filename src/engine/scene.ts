@@ -0,0 +1,313 @@
+/**
+ * Scene Layout
+ *
+ * Several realistic trees placed on a site plan, each with its own species,
+ * height and seed. The rest of the settings (age, crown shape, foliage,
+ * print policy) are shared. Trees are grown in their own coordinates and
+ * moved to their site position only for the merged export, so moving a tree
+ * in the viewport does not regenerate it unless the crowns make room for
+ * each other.
+ *
+ * Site coordinates are metres on the ground plane: x to the east and z to
+ * the south (north is -z, as for the wind direction).
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import type { TreeSettings, TreeSpecies } from '../store/useTreeStore';
+import type { BranchSegment } from './botanisten/branchGraph';
+import type { FoliageCluster } from './botanisten/treeStyles';
+import { generateRealisticGroup, getEngine, type GeneratedTree } from './botanisten/engines';
+import { requestSolidMesh } from './batchExport';
+import { solidOptionsFromSettings, type BaseOptions } from './solidOptions';
+import { EXPORT_FORMATS, exportObjects } from './exporters';
+import { matchSpecies, parseSpeciesMapping } from './speciesMapping';
+
+export type SceneExportMode = 'separate' | 'merged';
+
+export interface SceneTree {
+    id: number;
+    x: number;          // Site position (m)
+    z: number;
+    species: TreeSpecies;
+    height: number;     // m
+    seed: number;
+}
+
+export interface ScenePlacement {
+    tree: SceneTree;
+    generated: GeneratedTree;  // In the tree's own coordinates
+}
+
+export interface SceneExport {
+    buffer: ArrayBuffer;
+    fileName: string;
+    mimeType: string;
+}
+
+export interface SurveyImport {
+    trees: SceneTree[];
+    warnings: string[];
+    unknownSpecies: string[];  // Names missing from the species mapping, for the user to add
+}
+
+// A surveyed tree in projected metres (east, north), before it is placed in the scene
+export interface SurveyedTree {
+    east: number;
+    north: number;
+    speciesName: string;
+    height: number | null;
+}
+
+// Margin around the crowns on the common plinth (mm)
+const PLINTH_MARGIN = 5;
+
+/**
+ * Settings for one tree of the scene
+ */
+export function sceneTreeSettings(settings: TreeSettings, tree: SceneTree): TreeSettings {
+    return { ...settings, treeSpecies: tree.species, treeHeight: tree.height, seed: tree.seed };
+}
+
+/**
+ * Generate every tree of the scene. With sceneShading the crowns make room
+ * for their neighbours, otherwise each tree grows as if it stood alone.
+ */
+export function generateScene(settings: TreeSettings): ScenePlacement[] {
+    const trees = settings.sceneTrees;
+
+    if (settings.sceneShading) {
+        const generated = generateRealisticGroup(trees.map(tree => ({
+            position: [tree.x, tree.z],
+            settings: sceneTreeSettings(settings, tree),
+        })));
+        return trees.map((tree, index) => ({ tree, generated: generated[index] }));
+    }
+
+    const engine = getEngine('realistic');
+    return trees.map(tree => ({ tree, generated: engine.generate(sceneTreeSettings(settings, tree)) }));
+}
+
+/**
+ * Branches and foliage of a placed tree in site coordinates
+ */
+export function placeOnSite({ tree, generated }: ScenePlacement): { branches: BranchSegment[]; foliage: FoliageCluster[] } {
+    const move = ([x, y, z]: [number, number, number]): [number, number, number] => [x + tree.x, y, z + tree.z];
+    return {
+        branches: generated.branches.map(branch => ({ ...branch, start: move(branch.start), end: move(branch.end) })),
+        foliage: generated.foliage.map(cluster => ({ ...cluster, position: move(cluster.position) })),
+    };
+}
+
+/**
+ * Build the scene through the worker: one file per tree (zipped with a
+ * manifest of the site positions), or all trees fused on one plinth.
+ */
+export async function exportScene(
+    worker: Worker,
+    settings: TreeSettings,
+    onProgress?: (done: number, total: number) => void
+): Promise<SceneExport> {
+    const placements = generateScene(settings);
+    if (placements.length === 0) throw new Error('The scene has no trees');
+
+    const solidOptions = solidOptionsFromSettings(settings);
+    const { extension, mimeType } = EXPORT_FORMATS[settings.exportFormat];
+    const header = `Tradet scene ${placements.length} trees 1:${settings.modelScale}`;
+
+    if (settings.sceneExportMode === 'merged') {
+        const sited = placements.map(placeOnSite);
+        const branches = sited.flatMap(tree => tree.branches);
+        const foliage = sited.flatMap(tree => tree.foliage);
+
+        onProgress?.(0, 1);
+        const mesh = await requestSolidMesh(worker, 'scene', {
+            branches,
+            foliage,
+            ...solidOptions,
+            base: sitePlinth(branches, foliage, settings),
+            modelScale: settings.modelScale,
+        });
+        onProgress?.(1, 1);
+
+        return {
+            buffer: exportObjects([{ name: 'scene', mesh }], settings.exportFormat, header),
+            fileName: `scene_${placements.length}trees.${extension}`,
+            mimeType,
+        };
+    }
+
+    const files: Record<string, Uint8Array> = {};
+    const fileNames: string[] = [];
+    for (const [index, placement] of placements.entries()) {
+        const { tree, generated } = placement;
+        const name = `tree${tree.id}_${tree.species}_seed${tree.seed}`;
+        const mesh = await requestSolidMesh(worker, `scene:${index}`, {
+            branches: generated.branches,
+            foliage: generated.foliage,
+            ...solidOptions,
+            modelScale: settings.modelScale,
+        });
+        fileNames.push(`${name}.${extension}`);
+        files[fileNames[index]] = new Uint8Array(exportObjects([{ name, mesh }], settings.exportFormat, `${header} tree ${tree.id}`));
+        onProgress?.(index + 1, placements.length);
+    }
+
+    files['manifest.csv'] = strToU8(buildSceneManifest(placements, fileNames, settings));
+    const zip = zipSync(files);
+    return {
+        buffer: zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer,
+        fileName: `scene_${placements.length}trees.zip`,
+        mimeType: 'application/zip',
+    };
+}
+
+/**
+ * Rectangular plinth under the whole scene, covering every crown
+ */
+function sitePlinth(branches: BranchSegment[], foliage: FoliageCluster[], settings: TreeSettings): BaseOptions {
+    let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+    const extend = (x: number, z: number, radius: number) => {
+        minX = Math.min(minX, x - radius);
+        maxX = Math.max(maxX, x + radius);
+        minZ = Math.min(minZ, z - radius);
+        maxZ = Math.max(maxZ, z + radius);
+    };
+    for (const branch of branches) {
+        extend(branch.start[0], branch.start[2], branch.r1);
+        extend(branch.end[0], branch.end[2], branch.r2);
+    }
+    for (const cluster of foliage) extend(cluster.position[0], cluster.position[2], cluster.radius);
+
+    const toMM = (metres: number) => metres * 1000 / settings.modelScale;
+    return {
+        ...solidOptionsFromSettings(settings).base,
+        type: 'square',
+        diameter: toMM(maxX - minX) + 2 * PLINTH_MARGIN,
+        depth: toMM(maxZ - minZ) + 2 * PLINTH_MARGIN,
+        center: [(minX + maxX) / 2, (minZ + maxZ) / 2],
+    };
+}
+
+/**
+ * One CSV row per tree with its file, site position and parameters
+ */
+export function buildSceneManifest(placements: ScenePlacement[], fileNames: string[], settings: TreeSettings): string {
+    const rows = [['file', 'tree', 'x_m', 'z_m', 'x_mm', 'z_mm', 'species', 'height_m', 'seed', 'scale']];
+    placements.forEach(({ tree }, index) => {
+        rows.push([
+            fileNames[index],
+            String(tree.id),
+            tree.x.toFixed(2),
+            tree.z.toFixed(2),
+            (tree.x * 1000 / settings.modelScale).toFixed(1),
+            (tree.z * 1000 / settings.modelScale).toFixed(1),
+            tree.species,
+            tree.height.toFixed(2),
+            String(tree.seed),
+            `1:${settings.modelScale}`,
+        ]);
+    });
+    return rows.map(row => row.join(',')).join('\n') + '\n';
+}
+
+// --- Surveys and inventories ---
+
+/**
+ * Turn surveyed trees into scene trees: species through the mapping
+ * (unknown ones get the current species), missing heights the current
+ * height, and the middle of the site's bounding box moved to the origin.
+ */
+export function placeSurveyedTrees(surveyed: SurveyedTree[], settings: TreeSettings, warnings: string[] = []): SurveyImport {
+    if (surveyed.length === 0) throw new Error('No trees in the file');
+
+    const mapping = parseSpeciesMapping(settings.speciesMapping);
+    const unknownSpecies = new Set<string>();
+
+    const minEast = Math.min(...surveyed.map(tree => tree.east));
+    const maxEast = Math.max(...surveyed.map(tree => tree.east));
+    const minNorth = Math.min(...surveyed.map(tree => tree.north));
+    const maxNorth = Math.max(...surveyed.map(tree => tree.north));
+    const cx = (minEast + maxEast) / 2;
+    const cy = (minNorth + maxNorth) / 2;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const trees = surveyed.map((tree, index) => {
+        let species = matchSpecies(tree.speciesName, mapping);
+        if (!species) {
+            if (tree.speciesName.trim()) unknownSpecies.add(tree.speciesName.trim());
+            species = settings.treeSpecies;
+        }
+        return {
+            id: index + 1,
+            x: round(tree.east - cx),
+            z: round(cy - tree.north),
+            species,
+            height: tree.height !== null && tree.height > 0 ? tree.height : settings.treeHeight,
+            seed: settings.seed + index,
+        };
+    });
+
+    if (unknownSpecies.size > 0) {
+        warnings.push(`Okända arter (${settings.treeSpecies} används): ${[...unknownSpecies].join(', ')}`);
+    }
+
+    console.log('[Scene] Placed', trees.length, 'surveyed trees on a', (maxEast - minEast).toFixed(0), 'x', (maxNorth - minNorth).toFixed(0), 'm site');
+    return { trees, warnings, unknownSpecies: [...unknownSpecies] };
+}
+
+// Header names for each column, lower case
+const SURVEY_COLUMNS = {
+    x: ['x', 'e', 'easting', 'öst', 'ost'],
+    y: ['y', 'n', 'northing', 'norr'],
+    species: ['species', 'art', 'trädslag', 'tradslag', 'namn'],
+    height: ['height', 'height_m', 'höjd', 'hojd', 'höjd_m'],
+};
+
+/**
+ * Read a surveyor's tree list with x, y, species and height columns.
+ * Accepts comma, semicolon or tab separated files, with or without a
+ * header row, and decimal commas when the separator is not a comma.
+ * Coordinates are projected metres with y to the north (e.g. SWEREF 99).
+ */
+export function parseSurveyCSV(text: string, settings: TreeSettings): SurveyImport {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    if (lines.length === 0) throw new Error('The file is empty');
+
+    const separator = lines[0].includes(';') ? ';' : lines[0].includes('\t') ? '\t' : ',';
+    const parseNumber = (value: string | undefined) =>
+        parseFloat((separator === ',' ? value : value?.replace(',', '.')) ?? '');
+    const rows = lines.map(line => line.split(separator).map(cell => cell.trim().replace(/^"|"$/g, '')));
+
+    // Columns by header name, or x, y, species, height in that order
+    const columns = { x: 0, y: 1, species: 2, height: 3 };
+    const hasHeader = isNaN(parseNumber(rows[0][0])) || isNaN(parseNumber(rows[0][1]));
+    if (hasHeader) {
+        const header = rows[0].map(cell => cell.toLowerCase());
+        for (const [column, names] of Object.entries(SURVEY_COLUMNS)) {
+            const index = header.findIndex(cell => names.includes(cell));
+            columns[column as keyof typeof columns] = index;
+        }
+        if (columns.x < 0 || columns.y < 0) throw new Error('No x and y columns in the header');
+    }
+
+    const warnings: string[] = [];
+    const surveyed: SurveyedTree[] = [];
+    rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+        const east = parseNumber(row[columns.x]);
+        const north = parseNumber(row[columns.y]);
+        if (isNaN(east) || isNaN(north)) {
+            warnings.push(`Rad ${index + (hasHeader ? 2 : 1)}: saknar koordinater`);
+            return;
+        }
+
+        const height = parseNumber(columns.height >= 0 ? row[columns.height] : undefined);
+        surveyed.push({
+            east,
+            north,
+            speciesName: columns.species >= 0 ? row[columns.species] ?? '' : '',
+            height: isNaN(height) ? null : height,
+        });
+    });
+
+    return placeSurveyedTrees(surveyed, settings, warnings);
+}
@@ -0,0 +1,407 @@
+/**
+ * Smooth Branch Mesher
+ *
+ * Alternative to one Manifold.cylinder per segment, which leaves creases
+ * along bent branches and a tiny contact patch where a thin child meets
+ * its parent (the usual breaking point of a printed model):
+ * - Segments are joined into a skeleton by matching their end points
+ * - Every chain between forks is swept as one continuous tube with
+ *   parallel-transport frames, so bends have no seams
+ * - Every fork gets a local level set (Manifold.levelSet) of the smooth
+ *   union of the touching cones, which adds a fillet around the joint
+ *
+ * Returns separate solids; the worker unions them with everything else.
+ */
+
+import type { Manifold, ManifoldToplevel, Vec3 } from 'manifold-3d';
+import type { BranchSegment } from './botanisten/branchGraph';
+
+export interface SmoothMeshOptions {
+    filletScale?: number;   // Fillet radius relative to the thinnest branch at a fork
+    minEdgeLength?: number; // Finest fork detail worth meshing (model units), e.g. 0.2 mm printed
+    splitAtSelfContact?: boolean; // Sweep chains in overlapping pieces where they come back near themselves
+}
+
+interface SkeletonNode {
+    position: Vec3;
+    incoming: number[]; // Segments ending here
+    outgoing: number[]; // Segments starting here
+}
+
+// Same detail levels as the cylinder mesher
+const sidesForRadius = (radius: number) => radius > 0.3 ? 12 : radius > 0.1 ? 8 : 6;
+
+// Tubes closer than this share of their summed radii count as touching
+// (the rings are circumscribed and stretched at bends, so they reach a bit further)
+const CONTACT_MARGIN = 1.25;
+// Longest ring stretch at a bend (a 140° turn); sharper bends would fold the wall
+const MAX_MITER_SCALE = 3;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const normalize = (a: Vec3): Vec3 => {
+    const len = length(a);
+    return len > 0 ? [a[0] / len, a[1] / len, a[2] / len] : [0, 1, 0];
+};
+
+// Shortest distance between two line segments
+const segmentDistance = (p1: Vec3, q1: Vec3, p2: Vec3, q2: Vec3) => {
+    const d1 = sub(q1, p1);
+    const d2 = sub(q2, p2);
+    const r = sub(p1, p2);
+    const a = dot(d1, d1);
+    const e = dot(d2, d2);
+    const f = dot(d2, r);
+    const c = dot(d1, r);
+    const b = dot(d1, d2);
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+    const denominator = a * e - b * b;
+    let s = a > 1e-12 && denominator > 1e-12 ? clamp((b * f - c * e) / denominator) : 0;
+    let t = e > 1e-12 ? (b * s + f) / e : 0;
+    if (t < 0 || t > 1) {
+        t = clamp(t);
+        s = a > 1e-12 ? clamp((b * t - c) / a) : 0;
+    }
+    return length(sub(
+        [p1[0] + d1[0] * s, p1[1] + d1[1] * s, p1[2] + d1[2] * s],
+        [p2[0] + d2[0] * t, p2[1] + d2[1] * t, p2[2] + d2[2] * t]
+    ));
+};
+
+/**
+ * Build tubes and fork blends for the branch segments
+ */
+export function buildSmoothBranches(
+    wasm: ManifoldToplevel,
+    branches: BranchSegment[],
+    options: SmoothMeshOptions = {}
+): Manifold[] {
+    const segments = branches.filter(branch => length(sub(branch.end, branch.start)) >= 0.0001);
+    const { nodes, startNode, endNode } = buildSkeleton(segments);
+    const solids: Manifold[] = [];
+
+    for (const chain of traceChains(segments, nodes, startNode, endNode)) {
+        const pieces = options.splitAtSelfContact ? splitAtSelfContact(segments, chain) : [chain];
+        for (const piece of pieces) {
+            const tube = sweepTube(wasm, segments, piece);
+            if (tube) solids.push(tube);
+        }
+    }
+
+    let forks = 0;
+    for (const node of nodes) {
+        if (node.incoming.length + node.outgoing.length < 3) continue;
+        const blend = blendFork(wasm, segments, node, options.filletScale ?? 1.0, options.minEdgeLength ?? 0);
+        if (blend) {
+            solids.push(blend);
+            forks++;
+        }
+    }
+
+    console.log('[SmoothMesher] Built', solids.length - forks, 'tubes and', forks, 'fork blends');
+    return solids;
+}
+
+/**
+ * Merge coincident end points (to 0.01 mm in model units) into nodes
+ */
+function buildSkeleton(segments: BranchSegment[]) {
+    const nodes: SkeletonNode[] = [];
+    const lookup = new Map<string, number>();
+
+    const nodeAt = (position: Vec3) => {
+        const key = position.map(value => Math.round(value * 1e5)).join(',');
+        let index = lookup.get(key);
+        if (index === undefined) {
+            index = nodes.length;
+            nodes.push({ position, incoming: [], outgoing: [] });
+            lookup.set(key, index);
+        }
+        return index;
+    };
+
+    const startNode: number[] = [];
+    const endNode: number[] = [];
+    segments.forEach((segment, index) => {
+        startNode.push(nodeAt(segment.start));
+        endNode.push(nodeAt(segment.end));
+        nodes[startNode[index]].outgoing.push(index);
+        nodes[endNode[index]].incoming.push(index);
+    });
+
+    return { nodes, startNode, endNode };
+}
+
+/**
+ * Split the skeleton into chains of segments that pass straight through
+ * nodes with exactly one parent and one child
+ */
+function traceChains(segments: BranchSegment[], nodes: SkeletonNode[], startNode: number[], endNode: number[]): number[][] {
+    const visited = new Array<boolean>(segments.length).fill(false);
+    const passThrough = (node: SkeletonNode) => node.incoming.length === 1 && node.outgoing.length === 1;
+    const chains: number[][] = [];
+
+    const follow = (first: number) => {
+        const chain = [first];
+        visited[first] = true;
+        let node = nodes[endNode[first]];
+        while (passThrough(node) && !visited[node.outgoing[0]]) {
+            const next = node.outgoing[0];
+            chain.push(next);
+            visited[next] = true;
+            node = nodes[endNode[next]];
+        }
+        chains.push(chain);
+    };
+
+    segments.forEach((_, index) => {
+        if (!visited[index] && !passThrough(nodes[startNode[index]])) follow(index);
+    });
+    // Closed loops have no start node; cut them anywhere
+    segments.forEach((_, index) => {
+        if (!visited[index]) follow(index);
+    });
+
+    return chains;
+}
+
+/**
+ * Cut a chain where it comes back near itself. A single tube along a path
+ * that passes an earlier stretch of itself (an attractor curve) would cut
+ * through its own wall, which is not a valid solid. A new piece, overlapping
+ * the last by one segment, starts at every segment that would touch an
+ * earlier part of the current piece; the union merges them where they cross.
+ * Parts closer along the chain than half a turn around both tubes are the
+ * same stretch of tube, not a crossing, and are not compared.
+ */
+function splitAtSelfContact(segments: BranchSegment[], chain: number[]): number[][] {
+    const radius = (index: number) => Math.max(segments[index].r1, segments[index].r2);
+    const midpoint = (index: number): Vec3 => {
+        const { start, end } = segments[index];
+        return [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2, (start[2] + end[2]) / 2];
+    };
+
+    // Midpoints in a grid fine enough that touching segments are in neighbouring cells
+    const longest = Math.max(...chain.map(index => length(sub(segments[index].end, segments[index].start))));
+    const cellSize = Math.max(...chain.map(radius)) * 2 * CONTACT_MARGIN + longest;
+    const cellOf = (point: Vec3) => point.map(value => Math.floor(value / cellSize));
+    let grid = new Map<string, number[]>();
+    const insert = (position: number) => {
+        const key = cellOf(midpoint(chain[position])).join(',');
+        const cell = grid.get(key);
+        if (cell) cell.push(position);
+        else grid.set(key, [position]);
+    };
+
+    // Path length from the start of the chain to the start of every segment
+    const along = [0];
+    chain.forEach(index => along.push(along[along.length - 1] + length(sub(segments[index].end, segments[index].start))));
+
+    const touchesPiece = (position: number) => {
+        const segment = segments[chain[position]];
+        const [x, y, z] = cellOf(midpoint(chain[position]));
+        for (let dx = -1; dx <= 1; dx++) for (let dy = -1; dy <= 1; dy++) for (let dz = -1; dz <= 1; dz++) {
+            for (const other of grid.get(`${x + dx},${y + dy},${z + dz}`) ?? []) {
+                const reach = radius(chain[position]) + radius(chain[other]);
+                if (along[position] - along[other + 1] < Math.PI * reach) continue;
+                const { start, end } = segments[chain[other]];
+                if (segmentDistance(segment.start, segment.end, start, end) < reach * CONTACT_MARGIN) return true;
+            }
+        }
+        return false;
+    };
+
+    const pieces: number[][] = [];
+    let first = 0;
+    for (let position = 0; position < chain.length; position++) {
+        if (position - first > 1 && touchesPiece(position)) {
+            pieces.push(chain.slice(first, position));
+            first = position - 1;
+            grid = new Map();
+            insert(first);
+        }
+        insert(position);
+    }
+    pieces.push(chain.slice(first));
+    return pieces;
+}
+
+/**
+ * One closed tube along a chain, capped at both ends
+ */
+function sweepTube(wasm: ManifoldToplevel, segments: BranchSegment[], chain: number[]): Manifold | null {
+    const points: Vec3[] = [segments[chain[0]].start];
+    const radii: number[] = [segments[chain[0]].r1];
+    chain.forEach((index, i) => {
+        const next = chain[i + 1];
+        points.push(segments[index].end);
+        // Keep the thicker side where two segments meet
+        radii.push(next !== undefined ? Math.max(segments[index].r2, segments[next].r1) : segments[index].r2);
+    });
+
+    const sides = sidesForRadius(Math.max(...radii));
+    // Circumscribe the polygon so it covers the round fork blends
+    const ringScale = 1 / Math.cos(Math.PI / sides);
+
+    // Tangents: segment direction at the ends, bisector in between. A ring
+    // on the bisector plane cuts both segments at a slant, so it is an
+    // ellipse stretched by 1/cos(half the bend) along the bend direction.
+    const tangents: Vec3[] = [];
+    const miters: { direction: Vec3; scale: number }[] = [];
+    points.forEach((point, i) => {
+        const before = i > 0 ? normalize(sub(point, points[i - 1])) : null;
+        const after = i < points.length - 1 ? normalize(sub(points[i + 1], point)) : null;
+        if (!before || !after) {
+            tangents.push((before ?? after)!);
+            miters.push({ direction: [0, 0, 0], scale: 1 });
+            return;
+        }
+        const tangent = normalize([before[0] + after[0], before[1] + after[1], before[2] + after[2]]);
+        const bend = sub(after, before);
+        tangents.push(tangent);
+        miters.push({
+            direction: length(bend) > 1e-6 ? normalize(bend) : [0, 0, 0],
+            scale: Math.min(MAX_MITER_SCALE, 1 / Math.max(dot(tangent, before), 1e-6)),
+        });
+    });
+
+    // Parallel transport keeps the rings from twisting along the chain
+    const first = tangents[0];
+    let normal = normalize(cross(first, Math.abs(first[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]));
+
+    const vertProperties = new Float32Array((points.length * sides + 2) * 3);
+    points.forEach((point, i) => {
+        const tangent = tangents[i];
+        const projected = sub(normal, tangent.map(value => value * dot(normal, tangent)) as Vec3);
+        if (length(projected) > 1e-6) normal = normalize(projected);
+        const binormal = cross(tangent, normal);
+
+        const { direction, scale } = miters[i];
+
+        for (let j = 0; j < sides; j++) {
+            const angle = (j / sides) * Math.PI * 2;
+            const c = Math.cos(angle) * radii[i] * ringScale;
+            const s = Math.sin(angle) * radii[i] * ringScale;
+            const spoke: Vec3 = [
+                normal[0] * c + binormal[0] * s,
+                normal[1] * c + binormal[1] * s,
+                normal[2] * c + binormal[2] * s,
+            ];
+            // Stretch only the part of the spoke along the bend
+            const stretch = dot(spoke, direction) * (scale - 1);
+            const offset = (i * sides + j) * 3;
+            vertProperties[offset + 0] = point[0] + spoke[0] + direction[0] * stretch;
+            vertProperties[offset + 1] = point[1] + spoke[1] + direction[1] * stretch;
+            vertProperties[offset + 2] = point[2] + spoke[2] + direction[2] * stretch;
+        }
+    });
+
+    const startCap = points.length * sides;
+    const endCap = startCap + 1;
+    vertProperties.set(points[0], startCap * 3);
+    vertProperties.set(points[points.length - 1], endCap * 3);
+
+    // Counter-clockwise from outside
+    const triVerts: number[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+        for (let j = 0; j < sides; j++) {
+            const a = i * sides + j;
+            const b = i * sides + (j + 1) % sides;
+            const c = a + sides;
+            const d = b + sides;
+            triVerts.push(a, b, c, b, d, c);
+        }
+    }
+    const last = (points.length - 1) * sides;
+    for (let j = 0; j < sides; j++) {
+        const next = (j + 1) % sides;
+        triVerts.push(startCap, next, j);
+        triVerts.push(endCap, last + j, last + next);
+    }
+
+    try {
+        const mesh = new wasm.Mesh({ numProp: 3, vertProperties, triVerts: new Uint32Array(triVerts) });
+        return new wasm.Manifold(mesh);
+    } catch (err) {
+        console.warn('[SmoothMesher] Skipping invalid tube:', err);
+        return null;
+    }
+}
+
+/**
+ * Fillet around a fork: level set of the smooth union of all cones that
+ * touch the node. The blend fades out toward the edge of the sampling box,
+ * so the box walls cut through plain cones that the tubes already cover.
+ */
+function blendFork(
+    wasm: ManifoldToplevel,
+    segments: BranchSegment[],
+    node: SkeletonNode,
+    filletScale: number,
+    minEdgeLength: number
+): Manifold | null {
+    const touching = [...node.incoming, ...node.outgoing].map(index => segments[index]);
+    const radiiAtNode = [
+        ...node.incoming.map(index => segments[index].r2),
+        ...node.outgoing.map(index => segments[index].r1),
+    ];
+
+    const thinnest = Math.min(...radiiAtNode);
+    const thickest = Math.max(...radiiAtNode);
+    const fillet = thinnest * filletScale;
+    const halfSize = thickest + fillet * 3;
+    if (fillet <= 0) return null;
+
+    // Signed distance to a tapered cone, negative inside
+    const coneDistance = (point: Vec3, segment: BranchSegment) => {
+        const axis = sub(segment.end, segment.start);
+        const t = Math.max(0, Math.min(1, dot(sub(point, segment.start), axis) / dot(axis, axis)));
+        const closest: Vec3 = [
+            segment.start[0] + axis[0] * t,
+            segment.start[1] + axis[1] * t,
+            segment.start[2] + axis[2] * t,
+        ];
+        return length(sub(point, closest)) - (segment.r1 + (segment.r2 - segment.r1) * t);
+    };
+
+    const center = node.position;
+    const sdf = (point: Vec3) => {
+        const falloff = Math.max(0, 1 - length(sub(point, center)) / (halfSize * 0.8));
+        const k = fillet * falloff;
+        let distance = coneDistance(point, touching[0]);
+        for (let i = 1; i < touching.length; i++) {
+            const other = coneDistance(point, touching[i]);
+            // Polynomial smooth minimum
+            const h = k > 0 ? Math.max(k - Math.abs(distance - other), 0) / k : 0;
+            distance = Math.min(distance, other) - h * h * k * 0.25;
+        }
+        return -distance;
+    };
+
+    const bounds = {
+        min: [center[0] - halfSize, center[1] - halfSize, center[2] - halfSize] as Vec3,
+        max: [center[0] + halfSize, center[1] + halfSize, center[2] + halfSize] as Vec3,
+    };
+    // Resolve the thinnest branch with a few cells, but cap the grid size
+    // and skip detail too small to print
+    const edgeLength = Math.max(thinnest * 0.75, halfSize / 6, minEdgeLength);
+
+    try {
+        const blend = wasm.Manifold.levelSet(sdf, bounds, edgeLength);
+        if (blend.isEmpty()) {
+            blend.delete();
+            return null;
+        }
+        return blend;
+    } catch (err) {
+        console.warn('[SmoothMesher] Fork blend failed:', err);
+        return null;
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Solid Options
+ *
+ * Settings the worker needs besides the branches and foliage to build the
+ * printable solid: the footing, the branch mesher and the printability policy. Shared by the viewport
+ * tree and batch export so both build exactly the same solid.
+ */
+
+import type { TreeSettings } from '../store/useTreeStore';
+import { policyFromSettings, type PrintabilityPolicy } from './printability';
+
+export type MeshingMode = 'cylinders' | 'smooth';
+
+// Footing for gluing the model into a site model, sized in printed mm
+export interface BaseOptions {
+    type: 'none' | 'disc' | 'square' | 'pin';
+    diameter: number;     // Disc diameter or plinth side (mm)
+    depth?: number;       // Plinth side along z when it is not square (mm)
+    center?: [number, number]; // Footing centre on the x/z plane (model metres), default under the trunk
+    height: number;       // Disc/plinth thickness (mm)
+    pinDiameter: number;  // mm
+    pinLength: number;    // mm
+    modelScale: number;   // To convert printed mm to model metres
+}
+
+export interface MeshingOptions {
+    mode: MeshingMode;
+    filletScale: number;  // Fork fillet relative to the thinnest branch (smooth mode)
+    modelScale: number;   // Fork blends skip detail finer than 0.2 mm printed
+    splitAtSelfContact?: boolean; // Sweep chains that come back near themselves in pieces (smooth mode), see smoothMesher.ts
+}
+
+export interface SolidOptions {
+    base: BaseOptions;
+    meshing: MeshingOptions;
+    printability: PrintabilityPolicy;
+}
+
+export function solidOptionsFromSettings(settings: TreeSettings): SolidOptions {
+    return {
+        base: {
+            type: settings.baseType,
+            diameter: settings.baseDiameter,
+            height: settings.baseHeight,
+            pinDiameter: settings.basePinDiameter,
+            pinLength: settings.basePinLength,
+            modelScale: settings.modelScale,
+        },
+        meshing: {
+            mode: settings.meshingMode,
+            filletScale: settings.filletScale,
+            modelScale: settings.modelScale,
+        },
+        printability: policyFromSettings(settings),
+    };
+}
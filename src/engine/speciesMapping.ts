@@ -0,0 +1,77 @@
+/**
+ * Species Mapping
+ *
+ * Tree inventories and surveys name species in Latin or Swedish, often with
+ * cultivars ("Tilia × europaea 'Pallida'"). The words of every species'
+ * own name in the registry ("Lönn (Acer platanoides)") are known without
+ * any mapping; the mapping table adds other names. It is plain text, one
+ * "name = species id" per line, so users can add the names of their own
+ * inventories. A name matches the whole name or its first word (the genus).
+ */
+
+import type { TreeSpecies } from '../store/useTreeStore';
+import { getAllSpecies } from './botanisten/speciesRegistry';
+
+export const DEFAULT_SPECIES_MAPPING = [
+    '# Namn i inventeringen = art-id. Artnamnen i artlistan (Lind, Tilia ...) känns igen utan mappning.',
+    'Skogslind = linden',
+    'Parklind = linden',
+    'Bergek = oak',
+    'Vårtbjörk = birch',
+    'Glasbjörk = birch',
+    'Skogslönn = maple',
+    'Naverlönn = maple',
+    'Oxel = rowan',
+    'Vide = willow',
+    'Sälg = willow',
+    'Klibbal = alder',
+    'Gråal = alder',
+    'Lind-alm = elm',
+    'Fågelbär = cherry',
+    'Hägg = cherry',
+].join('\n');
+
+const splitWords = (text: string) => text.toLowerCase().split(/[\s(),'"×]+/).filter(Boolean);
+
+/**
+ * Parse mapping text into lower-case names and species keys.
+ * Lines without '=' or with an unknown species are skipped.
+ */
+export function parseSpeciesMapping(text: string): Map<string, TreeSpecies> {
+    const mapping = new Map<string, TreeSpecies>();
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const [name, species] = line.split('=').map(part => part.trim());
+        if (!name || !species) continue;
+        if (!(species in getAllSpecies())) {
+            console.warn('[SpeciesMapping] Unknown species in mapping:', line);
+            continue;
+        }
+        mapping.set(name.toLowerCase(), species as TreeSpecies);
+    }
+    return mapping;
+}
+
+/**
+ * Species id for an inventory name: a species id itself ('linden'), the
+ * whole name or its genus from the mapping, or a word of a species' own
+ * name. null if nothing matches.
+ */
+export function matchSpecies(name: string, mapping: Map<string, TreeSpecies>): TreeSpecies | null {
+    const text = name.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!text) return null;
+
+    const species = getAllSpecies();
+    if (text in species) return text;
+
+    const genus = splitWords(text)[0];
+    const mapped = mapping.get(text) ?? mapping.get(genus);
+    if (mapped) return mapped;
+
+    for (const [id, preset] of Object.entries(species)) {
+        if (splitWords(preset.name).includes(genus)) return id;
+    }
+    return null;
+}
@@ -0,0 +1,136 @@
+/**
+ * Tree Inventory Import
+ *
+ * Municipal tree inventories are published as GeoJSON points with species
+ * and height attributes. The attribute names differ between cities, so
+ * the common Swedish and English names are tried in turn. Coordinates are
+ * WGS 84 longitude/latitude as the GeoJSON standard says, or projected
+ * metres (SWEREF 99, web mercator) in files that name another CRS; both
+ * end up as local metres around the middle of the site.
+ */
+
+import type { TreeSettings } from '../store/useTreeStore';
+import { placeSurveyedTrees, type SurveyImport, type SurveyedTree } from './scene';
+import { matchSpecies, parseSpeciesMapping } from './speciesMapping';
+
+// Attribute names for the species and the height, lower case, in order of preference
+const SPECIES_PROPERTIES = [
+    'species', 'art', 'trädslag', 'tradslag', 'latin', 'latinskt_namn', 'vetenskapligt_namn',
+    'scientific_name', 'taxon', 'genus', 'släkte', 'slakte', 'svenskt_namn', 'namn', 'name',
+];
+const HEIGHT_PROPERTIES = ['height', 'height_m', 'höjd', 'hojd', 'trädhöjd', 'tradhojd', 'tree_height'];
+
+const EARTH_RADIUS = 6371008.8; // Mean radius (m), for the local flat projection
+const WEB_MERCATOR_RADIUS = 6378137; // Sphere radius of EPSG:3857 (m)
+// Named CRSs in degrees: WGS 84, ETRS89 and SWEREF 99 geographic; and web mercator
+const GEOGRAPHIC_EPSG = [4326, 4258, 4619];
+const WEB_MERCATOR_EPSG = [3857, 900913];
+
+type Position = [number, number, ...number[]];
+
+interface InventoryFeature {
+    geometry?: { type?: string; coordinates?: unknown } | null;
+    properties?: Record<string, unknown> | null;
+}
+
+/**
+ * Height from an attribute: a number, a string with a decimal comma, or a
+ * height class such as "10-15" (the middle of the class is used)
+ */
+export function parseHeight(value: unknown): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+
+    const numbers = value.replace(/,/g, '.').match(/\d+(\.\d+)?/g)?.map(Number) ?? [];
+    if (numbers.length === 0) return null;
+    return numbers.length >= 2 ? (numbers[0] + numbers[1]) / 2 : numbers[0];
+}
+
+/**
+ * Read a GeoJSON FeatureCollection of Point or MultiPoint trees
+ */
+export function parseTreeInventory(text: string, settings: TreeSettings): SurveyImport {
+    const data = JSON.parse(text) as { type?: string; features?: InventoryFeature[]; crs?: { properties?: { name?: string } } };
+    if (data.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+        throw new Error('Not a GeoJSON FeatureCollection');
+    }
+
+    const mapping = parseSpeciesMapping(settings.speciesMapping);
+    const warnings: string[] = [];
+    const points: { position: Position; speciesName: string; height: number | null }[] = [];
+    let skipped = 0;
+
+    for (const feature of data.features) {
+        const geometry = feature.geometry;
+        const positions = geometry?.type === 'Point' ? [geometry.coordinates]
+            : geometry?.type === 'MultiPoint' ? geometry.coordinates as unknown[]
+            : [];
+        const valid = positions.filter((position): position is Position =>
+            Array.isArray(position) && typeof position[0] === 'number' && typeof position[1] === 'number');
+        if (valid.length === 0) {
+            skipped++;
+            continue;
+        }
+
+        // Attributes by lower-case name; the first species name the mapping knows wins
+        const properties = Object.fromEntries(
+            Object.entries(feature.properties ?? {}).map(([key, value]) => [key.toLowerCase(), value])
+        );
+        const names = SPECIES_PROPERTIES
+            .map(key => properties[key])
+            .filter((value): value is string => typeof value === 'string' && value.trim() !== '');
+        const speciesName = names.find(name => matchSpecies(name, mapping)) ?? names[0] ?? '';
+        const heightKey = HEIGHT_PROPERTIES.find(key => parseHeight(properties[key]) !== null);
+        const height = heightKey ? parseHeight(properties[heightKey]) : null;
+
+        for (const position of valid) points.push({ position, speciesName, height });
+    }
+
+    if (skipped > 0) warnings.push(`${skipped} objekt utan punktgeometri hoppades över`);
+
+    const crs = data.crs?.properties?.name ?? '';
+    const surveyed = toLocalMetres(points.map(point => point.position), crs).map((local, index): SurveyedTree => ({
+        east: local[0],
+        north: local[1],
+        speciesName: points[index].speciesName,
+        height: points[index].height,
+    }));
+
+    console.log('[TreeInventory] Read', surveyed.length, 'trees, CRS:', crs || 'WGS 84');
+    return placeSurveyedTrees(surveyed, settings, warnings);
+}
+
+/**
+ * East/north metres for every position. Longitude/latitude (and web
+ * mercator, which is unprojected first) use a local flat projection around
+ * the middle of the site, accurate to centimetres across a city block.
+ */
+function toLocalMetres(positions: Position[], crs: string): [number, number][] {
+    if (positions.length === 0) return [];
+
+    // "EPSG:3006", "urn:ogc:def:crs:EPSG::3006" or "urn:ogc:def:crs:OGC:1.3:CRS84"
+    const epsg = Number(crs.match(/EPSG:+(\d+)/i)?.[1] ?? NaN);
+    const degrees = /CRS84/i.test(crs) || GEOGRAPHIC_EPSG.includes(epsg);
+
+    let lonLat: [number, number][];
+    if (WEB_MERCATOR_EPSG.includes(epsg)) {
+        lonLat = positions.map(([x, y]) => [
+            x / WEB_MERCATOR_RADIUS * 180 / Math.PI,
+            (2 * Math.atan(Math.exp(y / WEB_MERCATOR_RADIUS)) - Math.PI / 2) * 180 / Math.PI,
+        ]);
+    } else if (degrees || (!Number.isFinite(epsg) && positions.every(([x, y]) => Math.abs(x) <= 180 && Math.abs(y) <= 90))) {
+        // Without a named CRS, coordinates in range are taken as degrees
+        lonLat = positions.map(([x, y]) => [x, y]);
+    } else {
+        // Any other named CRS is projected metres, e.g. SWEREF 99 TM (EPSG:3006)
+        return positions.map(([x, y]) => [x, y]);
+    }
+
+    const lon0 = (Math.min(...lonLat.map(p => p[0])) + Math.max(...lonLat.map(p => p[0]))) / 2;
+    const lat0 = (Math.min(...lonLat.map(p => p[1])) + Math.max(...lonLat.map(p => p[1]))) / 2;
+    const toRadians = Math.PI / 180;
+    return lonLat.map(([lon, lat]) => [
+        (lon - lon0) * toRadians * Math.cos(lat0 * toRadians) * EARTH_RADIUS,
+        (lat - lat0) * toRadians * EARTH_RADIUS,
+    ]);
+}
@@ -0,0 +1,238 @@
+/**
+ * Settings Presets
+ *
+ * Named snapshots of TreeSettings that can be kept in localStorage, saved
+ * as JSON files and shared as links. Every preset carries a schema version;
+ * older presets are migrated step by step when loaded, and settings that no
+ * longer exist (or have the wrong type) are dropped, so a preset written
+ * today still loads after TreeSettings changes.
+ */
+
+import { DEFAULT_SETTINGS, type TreeSettings } from './useTreeStore';
+import { clampSetting } from './settingRanges';
+import { GROWN_AGE } from '../engine/botanisten/growth';
+import { validateCrownProfile } from '../engine/botanisten/crownProfile';
+import { ATTRACTORS } from '../engine/fysikern/attractors';
+import type { SceneTree } from '../engine/scene';
+
+export const PRESET_VERSION = 2;
+
+export interface SettingsPreset {
+    version: number;
+    name: string;
+    createdAt: string;
+    settings: Partial<TreeSettings>;
+}
+
+const STORAGE_KEY = 'tradet.settingsPresets';
+const HASH_KEY = 's';
+
+// Runtime state that must never be restored from a preset
+const TRANSIENT_KEYS: (keyof TreeSettings)[] = ['workerReady', 'triggerGeneration'];
+
+type RawSettings = Record<string, unknown>;
+
+/**
+ * Upgrades from each version to the next. Add an entry here whenever a
+ * setting is renamed or changes meaning, keyed by the version it upgrades from.
+ */
+const MIGRATIONS: Record<number, (settings: RawSettings) => RawSettings> = {
+    // Version 0: bare settings object without the preset wrapper
+    0: (settings) => settings,
+    // Version 1: the age buckets became an age in years (see growth.ts)
+    1: ({ treeAge, ...settings }) => {
+        const years: Record<string, number> = { young: 15, mature: GROWN_AGE, old: 120 };
+        if (typeof treeAge === 'string' && treeAge in years) settings.treeAgeYears = years[treeAge];
+        return settings;
+    },
+};
+
+const SCENE_TREE_NUMBERS = ['id', 'x', 'z', 'height', 'seed'] as const;
+
+const isSceneTree = (tree: unknown): tree is SceneTree => {
+    if (!tree || typeof tree !== 'object') return false;
+    const fields = tree as RawSettings;
+    return typeof fields.species === 'string'
+        && SCENE_TREE_NUMBERS.every(key => typeof fields[key] === 'number' && isFinite(fields[key]));
+};
+
+/**
+ * Checks for settings whose type alone does not make them valid (null is
+ * an object too). Each returns the value to keep or throws, which drops it.
+ */
+const VALIDATORS: Partial<Record<keyof TreeSettings, (value: unknown) => unknown>> = {
+    crownProfile: (value) => value === null ? null : validateCrownProfile(value),
+    // An attractor this version does not know is drawn as the default one
+    attractorType: (value) => {
+        if (Object.hasOwn(ATTRACTORS, value as string)) return value;
+        console.warn('[Presets] Unknown attractor', value, 'replaced by', DEFAULT_SETTINGS.attractorType);
+        return DEFAULT_SETTINGS.attractorType;
+    },
+    attractorCoefficients: (value) => {
+        const entries = Object.entries(value as object);
+        if (Array.isArray(value) || !entries.every(([, c]) => typeof c === 'number' && isFinite(c))) {
+            throw new Error('attractor coefficients must be finite numbers');
+        }
+        return value;
+    },
+    attractorStart: (value) => {
+        if (!Array.isArray(value) || value.length !== 3 || !value.every(c => typeof c === 'number' && isFinite(c))) {
+            throw new Error('attractor start must be three finite numbers');
+        }
+        return value;
+    },
+    sceneTrees: (value) => {
+        if (!Array.isArray(value)) throw new Error('scene trees must be a list');
+        const trees = value.filter(isSceneTree);
+        if (trees.length < value.length) {
+            console.warn('[Presets] Dropping', value.length - trees.length, 'invalid scene trees');
+        }
+        return trees;
+    },
+};
+
+// Defaults of every setting a preset may contain
+const persistedDefaults = (): RawSettings => {
+    const defaults: RawSettings = { ...DEFAULT_SETTINGS };
+    for (const key of TRANSIENT_KEYS) delete defaults[key];
+    return defaults;
+};
+
+/**
+ * The settings worth saving from the current store state
+ */
+export function pickPersistedSettings(state: TreeSettings): Partial<TreeSettings> {
+    const source = state as unknown as RawSettings;
+    const settings: RawSettings = {};
+    for (const key of Object.keys(persistedDefaults())) {
+        settings[key] = source[key];
+    }
+    return settings as Partial<TreeSettings>;
+}
+
+export function createPreset(name: string, state: TreeSettings): SettingsPreset {
+    return {
+        version: PRESET_VERSION,
+        name,
+        createdAt: new Date().toISOString(),
+        settings: pickPersistedSettings(state),
+    };
+}
+
+/**
+ * Bring a parsed preset of any known version up to the current schema
+ */
+export function migratePreset(raw: unknown): SettingsPreset {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('Preset is not an object');
+    }
+
+    const data = raw as RawSettings;
+    let version = typeof data.version === 'number' ? data.version : 0;
+    let settings = (version === 0 ? data : data.settings) as RawSettings;
+
+    if (version > PRESET_VERSION) {
+        throw new Error(`Preset version ${version} is newer than supported (${PRESET_VERSION})`);
+    }
+    if (!settings || typeof settings !== 'object') {
+        throw new Error('Preset has no settings');
+    }
+
+    while (version < PRESET_VERSION) {
+        settings = MIGRATIONS[version](settings);
+        version++;
+    }
+
+    // Keep only known settings with the expected type, numbers clamped to the panel ranges
+    const defaults = persistedDefaults();
+    const valid: RawSettings = {};
+    for (const [key, value] of Object.entries(settings)) {
+        if (!(key in defaults) || typeof value !== typeof defaults[key]) continue;
+        const validate = VALIDATORS[key as keyof TreeSettings];
+        try {
+            const checked = validate ? validate(value) : value;
+            valid[key] = typeof checked === 'number' ? clampSetting(key as keyof TreeSettings, checked) : checked;
+        } catch (err) {
+            console.warn('[Presets] Dropping invalid setting', key, err);
+        }
+    }
+
+    return {
+        version: PRESET_VERSION,
+        name: typeof data.name === 'string' ? data.name : 'Importerad',
+        createdAt: typeof data.createdAt === 'string' ? data.createdAt : new Date().toISOString(),
+        settings: valid as Partial<TreeSettings>,
+    };
+}
+
+// --- localStorage ---
+
+/**
+ * Saved presets by name. Entries that fail migration are skipped.
+ */
+export function loadPresets(): Record<string, SettingsPreset> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+        const presets: Record<string, SettingsPreset> = {};
+        for (const [name, raw] of Object.entries(stored)) {
+            try {
+                presets[name] = migratePreset(raw);
+            } catch (err) {
+                console.warn('[Presets] Skipping preset', name, err);
+            }
+        }
+        return presets;
+    } catch {
+        return {};
+    }
+}
+
+export function savePreset(preset: SettingsPreset): void {
+    const presets = loadPresets();
+    presets[preset.name] = preset;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function deletePreset(name: string): void {
+    const presets = loadPresets();
+    delete presets[name];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+// --- JSON files ---
+
+export function presetToJSON(preset: SettingsPreset): string {
+    return JSON.stringify(preset, null, 2);
+}
+
+export function parsePresetJSON(text: string): SettingsPreset {
+    return migratePreset(JSON.parse(text));
+}
+
+// --- Links ---
+
+/**
+ * URL hash (#s=...) holding the whole preset as base64url JSON
+ */
+export function presetToHash(preset: SettingsPreset): string {
+    const bytes = new TextEncoder().encode(JSON.stringify({ ...preset, createdAt: undefined }));
+    const base64 = btoa(String.fromCharCode(...bytes));
+    return `#${HASH_KEY}=${base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+/**
+ * Read a preset from a URL hash, or null if the hash holds none
+ */
+export function presetFromHash(hash: string): SettingsPreset | null {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+    if (!encoded) return null;
+
+    try {
+        const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+        const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+        return migratePreset(JSON.parse(new TextDecoder().decode(bytes)));
+    } catch (err) {
+        console.warn('[Presets] Invalid preset in URL', err);
+        return null;
+    }
+}
@@ -0,0 +1,69 @@
+import { MAX_SEED, type TreeSettings } from './useTreeStore';
+import { MAX_AGE } from '../engine/botanisten/growth';
+
+export interface SettingRange {
+    min: number;
+    max: number;
+}
+
+// Slider limits shared by the panels and preset loading, so a preset or
+// shared link can never carry a value the panels would not let you pick
+export const SETTING_RANGES = {
+    seed: { min: 0, max: MAX_SEED },
+    treeAgeYears: { min: 1, max: MAX_AGE },
+    plantingAge: { min: 0, max: 30 },
+    stemCount: { min: 2, max: 6 },
+    treeHeight: { min: 5, max: 30 },
+    crownWidth: { min: 0.5, max: 2.0 },
+    trunkHeight: { min: 1, max: 10 },
+    crownDensity: { min: 1, max: 10 },
+    trunkThickness: { min: 0.5, max: 2.0 },
+    foliageDensity: { min: 0.1, max: 1.0 },
+    foliageSize: { min: 0.3, max: 2.5 },
+    windStrength: { min: 0, max: 1 },
+    windDirection: { min: 0, max: 359 },
+    thicknessDecay: { min: 1.5, max: 3.0 },
+    minPrintableRadius: { min: 0.01, max: 0.3 },
+    colonizationInfluence: { min: 0.5, max: 8 },
+    colonizationKillDistance: { min: 0.2, max: 3 },
+    colonizationStep: { min: 0.1, max: 1 },
+    organicBranchThickness: { min: 0.03, max: 0.5 },
+    connectedBranchThickness: { min: 0.03, max: 0.5 },
+    branchingFactor: { min: 1, max: 5 },
+    recursionDepth: { min: 3, max: 10 },
+    gravitropism: { min: 0, max: 1 },
+    lengthDecay: { min: 0.5, max: 0.95 },
+    initialRadius: { min: 0.5, max: 10 },
+    nozzleDiameter: { min: 0.1, max: 1.0 },
+    minWallCount: { min: 1, max: 4 },
+    layerHeight: { min: 0.05, max: 0.6 },
+    targetScale: { min: 0.1, max: 10.0 },
+    overhangAngle: { min: 20, max: 80 },
+    filletScale: { min: 0.2, max: 3.0 },
+    baseDiameter: { min: 5, max: 100 },
+    baseHeight: { min: 0.6, max: 10 },
+    basePinDiameter: { min: 0.8, max: 10 },
+    basePinLength: { min: 1, max: 30 },
+    batchCount: { min: 1, max: 200 },
+    batchSeedStart: { min: 0, max: 100000 },
+    batchHeightSpread: { min: 0, max: 0.5 },
+    batchCrownJitter: { min: 0, max: 0.5 },
+    attractorIterations: { min: 100, max: 20000 },
+    attractorDt: { min: 0.0005, max: 0.1 },
+    attractorTransient: { min: 0, max: 10000 },
+    sculptureRadius: { min: 0.05, max: 1.5 },
+    sculptureRadiusVariation: { min: 0, max: 0.9 },
+    sculptureSmoothing: { min: 0, max: 20 },
+    sculptureStandHeight: { min: 0, max: 10 },
+    lsystemIterations: { min: 1, max: 10 },
+    lsystemAngle: { min: 1, max: 180 },
+} satisfies Partial<Record<keyof TreeSettings, SettingRange>>;
+
+/**
+ * Pull a loaded value back inside its slider range (settings without one pass through)
+ */
+export function clampSetting(key: keyof TreeSettings, value: number): number {
+    const ranges: Partial<Record<keyof TreeSettings, SettingRange>> = SETTING_RANGES;
+    const range = ranges[key];
+    return range ? Math.min(range.max, Math.max(range.min, value)) : value;
+}
@@ -1,29 +1,66 @@
 import { create } from 'zustand';
+import { LSYSTEM_PRESETS } from '../engine/botanisten/lsystemPresets';
+import type { ExportFormat } from '../engine/exporters';
+import type { BatchPackaging, HeightDistribution } from '../engine/batchExport';
+import type { MeshingMode } from '../engine/solidOptions';
+import type { PrintReport } from '../engine/printAnalysis';
+import type { ThinBranchHandling } from '../engine/printability';
+import type { SceneExportMode, SceneTree } from '../engine/scene';
+import type { GrowthHabit } from '../engine/botanisten/realisticTree';
+import { GROWN_AGE } from '../engine/botanisten/growth';
+import type { CrownProfile } from '../engine/botanisten/crownProfile';
+import type { SilhouettePlacement } from '../engine/botanisten/silhouette';
+import { DEFAULT_SPECIES_MAPPING } from '../engine/speciesMapping';
+import { ATTRACTORS } from '../engine/fysikern/attractors';
+import type { SculptureRadiusMode } from '../engine/fysikern/sculpture';
 
 export type TreeType = 'conifer' | 'deciduous' | 'shrub' | 'cypress' | 'palm';
-export type TreeSpecies = 'linden' | 'oak' | 'birch' | 'spruce' | 'pine';
-export type TreeAge = 'young' | 'mature' | 'old';
+export type TreeSpecies = string; // Id in the species registry (speciesRegistry.ts)
+
+// Photo the crown was fitted to (see silhouette.ts), shown behind the tree
+export interface ReferenceImage extends SilhouettePlacement {
+    url: string;  // Object URL of the loaded file
+}
+
+// Seeds are kept to six digits so they are easy to read out and type in
+export const MAX_SEED = 999999;
 
 export interface TreeSettings {
     // Biological parameters
     branchingFactor: number;
     recursionDepth: number;
     thicknessDecay: number; // Da Vinci exponent
+    pipeModel: boolean;     // Recompute branch radii from the tips with thicknessDecay
     initialRadius: number;
     lengthDecay: number;
 
     // Physical parameters
     nozzleDiameter: number;
+    minWallCount: number;     // Perimeters on each side of the thinnest branch
+    layerHeight: number;      // mm
+    thinBranchHandling: ThinBranchHandling; // Thicken or prune branches below the printable minimum
     minPrintableRadius: number;
     targetScale: number;
+    overhangAngle: number;    // Degrees from vertical that print without support
+    showPrintIssues: boolean; // Highlight thin branches and overhangs in the viewport
 
     // Growth bias
     gravitropism: number;
 
     // Global mode
     generationMode: 'realistic' | 'abstract';
-    attractorType: 'thomas' | 'aizawa';
+    generatorEngine: string; // Id in the engine registry (engines.ts)
+    attractorType: string;   // Id in the attractor registry (attractors.ts)
     attractorIterations: number;
+    attractorCoefficients: Record<string, number>; // Coefficients of the chosen attractor
+    attractorDt: number;     // Integration time step
+    attractorStart: [number, number, number];
+    attractorTransient: number; // Steps integrated before the curve starts
+    sculptureRadius: number;    // Tube radius of the attractor path (m)
+    sculptureRadiusMode: SculptureRadiusMode;
+    sculptureRadiusVariation: number; // 0 = even tube, up to 0.9 = strongly swelling
+    sculptureSmoothing: number; // Smoothing passes over the resampled path
+    sculptureStandHeight: number; // Column under the lowest point of the path (m), 0 for none
 
     // Tree type and foliage
     treeType: TreeType;
@@ -34,7 +71,8 @@ export interface TreeSettings {
 
     // NEW: Realistic tree parameters
     treeSpecies: TreeSpecies;
-    treeAge: TreeAge;
+    treeAgeYears: number;   // Age shown; the tree is generated as it stands at GROWN_AGE (see growth.ts)
+    plantingAge: number;    // Age of the nursery tree when planted, the start of the timeline
     treeHeight: number;
     crownWidth: number;
 
@@ -42,9 +80,55 @@ export interface TreeSettings {
     trunkHeight: number;   // Height in meters where branches start
     crownDensity: number;  // 1-10, how many branches
     trunkThickness: number; // Multiplier for trunk and branch thickness (0.5 - 2.0)
+    windStrength: number;   // 0 = calm, 1 = strongly wind-shaped crown
+    windDirection: number;  // Compass degrees the prevailing wind blows from
+    growthHabit: GrowthHabit | 'species'; // 'species' grows the species' own habit
+    stemCount: number;      // Trunks of a multi-stemmed tree
+    crownProfile: CrownProfile | null; // Drawn crown silhouette; null uses the species' own
+
+    // Engine-specific parameters
+    organicBranchThickness: number;   // Crown tube radius for the organic engine (m)
+    connectedBranchThickness: number; // Crown branch radius for the connected engine (m)
+    colonizationInfluence: number;    // Attraction point influence radius (m)
+    colonizationKillDistance: number; // Attraction points closer than this are consumed (m)
+    colonizationStep: number;         // Growth step length (m)
+
+    // L-system grammar (see lsystemPresets.ts)
+    lsystemAxiom: string;
+    lsystemRules: string;      // One production per line
+    lsystemIterations: number;
+    lsystemAngle: number;      // Default turn angle in degrees
 
     // Scaling for physical models
     modelScale: number; // e.g. 500 for 1:500
+    exportFormat: ExportFormat;
+    meshingMode: MeshingMode;  // Per-segment cylinders, or continuous tubes with filleted forks
+    filletScale: number;       // Fork fillet radius relative to the thinnest branch
+
+    // Base / footing, in printed millimetres (independent of modelScale)
+    baseType: 'none' | 'disc' | 'square' | 'pin';
+    baseDiameter: number;     // Disc diameter or plinth side
+    baseHeight: number;       // Disc or plinth thickness
+    basePinDiameter: number;
+    basePinLength: number;
+
+    // Batch export of seeded variants (see batchExport.ts)
+    batchCount: number;
+    batchSeedStart: number;
+    batchHeightSpread: number;   // Max relative height deviation
+    batchHeightDistribution: HeightDistribution;
+    batchCrownJitter: number;    // Max relative crown width deviation
+    batchPackaging: BatchPackaging;
+
+    // Scene of several placed trees (see scene.ts)
+    sceneMode: boolean;           // Show and export the scene instead of the single tree
+    sceneTrees: SceneTree[];
+    sceneShading: boolean;        // Crowns make room for their neighbours
+    sceneExportMode: SceneExportMode;
+    speciesMapping: string;       // Inventory names to species, one "name = species" per line
+
+    // Seed for all stochastic choices - same seed and settings give the same tree
+    seed: number;
 
     // Infrastructure
     workerReady: boolean;
@@ -52,26 +136,64 @@ export interface TreeSettings {
 }
 
 interface TreeState extends TreeSettings {
+    printReport: PrintReport | null; // Analysis of the last generated solid
+    batchProgress: { done: number; total: number } | null; // Set while a batch export runs
+    settingsRevision: number; // Bumped by applySettings so the panels can pick up the new values
+    selectedSceneTree: number | null; // Id of the scene tree under the move gizmo
+    speciesRevision: number;  // Bumped when user species are saved, so the species selectors are rebuilt and the trees regenerated
+    solidRevision: number;    // Bumped when the viewport has built the solids for the current settings
+    crownProfileEditor: boolean; // The crown profile editor is open over the viewport
+    referenceImage: ReferenceImage | null;
+
     updateSettings: (settings: Partial<TreeSettings>) => void;
+    applySettings: (settings: Partial<TreeSettings>) => void; // Load settings from outside the panels (presets, links)
     setWorkerReady: (ready: boolean) => void;
+    setPrintReport: (report: PrintReport | null) => void;
+    setBatchProgress: (progress: { done: number; total: number } | null) => void;
+    addSceneTree: (tree: Omit<SceneTree, 'id'>) => void;
+    updateSceneTree: (id: number, changes: Partial<Omit<SceneTree, 'id'>>) => void;
+    removeSceneTree: (id: number) => void;
+    setSceneTrees: (trees: SceneTree[]) => void;
+    selectSceneTree: (id: number | null) => void;
+    speciesChanged: () => void;
+    solidsBuilt: () => void;
+    setCrownProfileEditor: (open: boolean) => void;
+    setReferenceImage: (image: ReferenceImage | null) => void;
     generate: () => void;
+    randomizeSeed: () => void;
 }
 
-export const useTreeStore = create<TreeState>((set) => ({
+export const DEFAULT_SETTINGS: TreeSettings = {
     generationMode: 'realistic',
+    generatorEngine: 'realistic',
     attractorType: 'thomas',
     attractorIterations: 1000,
+    attractorCoefficients: { ...ATTRACTORS.thomas.coefficients },
+    attractorDt: ATTRACTORS.thomas.dt,
+    attractorStart: ATTRACTORS.thomas.start,
+    attractorTransient: 0,
+    sculptureRadius: 0.3,
+    sculptureRadiusMode: 'speed',
+    sculptureRadiusVariation: 0.4,
+    sculptureSmoothing: 4,
+    sculptureStandHeight: 2,
 
     // Defaults
     branchingFactor: 3,
     recursionDepth: 7,
     thicknessDecay: 2.2,
+    pipeModel: false,
     initialRadius: 3.0,
     lengthDecay: 0.75,
 
     nozzleDiameter: 0.4,
+    minWallCount: 1,
+    layerHeight: 0.2,
+    thinBranchHandling: 'thicken',
     minPrintableRadius: 0.05, // Lowered for finer branches
     targetScale: 1.0,
+    overhangAngle: 45,
+    showPrintIssues: true,
 
     gravitropism: 0.1,
 
@@ -84,7 +206,8 @@ export const useTreeStore = create<TreeState>((set) => ({
 
     // NEW: Realistic tree defaults
     treeSpecies: 'linden',
-    treeAge: 'mature',
+    treeAgeYears: GROWN_AGE,
+    plantingAge: 8,
     treeHeight: 15,
     crownWidth: 1.0,
 
@@ -92,12 +215,89 @@ export const useTreeStore = create<TreeState>((set) => ({
     trunkHeight: 3,      // 3 meters before branches start
     crownDensity: 5,     // Medium density
     trunkThickness: 1.0, // Default multiplier
+    windStrength: 0,
+    windDirection: 225, // South-west
+    growthHabit: 'species',
+    stemCount: 3,
+    crownProfile: null,
+
+    organicBranchThickness: 0.12,
+    connectedBranchThickness: 0.12,
+    colonizationInfluence: 3.0,
+    colonizationKillDistance: 0.8,
+    colonizationStep: 0.35,
+
+    lsystemAxiom: LSYSTEM_PRESETS['abop-2.6'].axiom,
+    lsystemRules: LSYSTEM_PRESETS['abop-2.6'].rules,
+    lsystemIterations: LSYSTEM_PRESETS['abop-2.6'].iterations,
+    lsystemAngle: LSYSTEM_PRESETS['abop-2.6'].angle,
     modelScale: 200, // Default 1:200
+    exportFormat: 'stl',
+    meshingMode: 'cylinders',
+    filletScale: 1.0,
+
+    baseType: 'none',
+    baseDiameter: 20,
+    baseHeight: 2,
+    basePinDiameter: 2,
+    basePinLength: 5,
+
+    batchCount: 30,
+    batchSeedStart: 1,
+    batchHeightSpread: 0.15,
+    batchHeightDistribution: 'normal',
+    batchCrownJitter: 0.1,
+    batchPackaging: 'files',
+
+    sceneMode: false,
+    sceneTrees: [],
+    sceneShading: true,
+    sceneExportMode: 'separate',
+    speciesMapping: DEFAULT_SPECIES_MAPPING,
+
+    seed: 42,
 
     workerReady: false,
     triggerGeneration: 0,
+};
+
+export const useTreeStore = create<TreeState>((set) => ({
+    ...DEFAULT_SETTINGS,
+    printReport: null,
+    batchProgress: null,
+    settingsRevision: 0,
+    selectedSceneTree: null,
+    speciesRevision: 0,
+    solidRevision: 0,
+    crownProfileEditor: false,
+    referenceImage: null,
 
     updateSettings: (newSettings) => set((state) => ({ ...state, ...newSettings })),
+    applySettings: (newSettings) => set((state) => ({
+        ...state,
+        ...newSettings,
+        settingsRevision: state.settingsRevision + 1,
+    })),
     setWorkerReady: (ready) => set({ workerReady: ready }),
+    setPrintReport: (report) => set({ printReport: report }),
+    setBatchProgress: (progress) => set({ batchProgress: progress }),
+    addSceneTree: (tree) => set((state) => {
+        const id = state.sceneTrees.reduce((max, other) => Math.max(max, other.id), 0) + 1;
+        return { sceneTrees: [...state.sceneTrees, { ...tree, id }], selectedSceneTree: id };
+    }),
+    updateSceneTree: (id, changes) => set((state) => ({
+        sceneTrees: state.sceneTrees.map((tree) => tree.id === id ? { ...tree, ...changes } : tree),
+    })),
+    removeSceneTree: (id) => set((state) => ({
+        sceneTrees: state.sceneTrees.filter((tree) => tree.id !== id),
+        selectedSceneTree: state.selectedSceneTree === id ? null : state.selectedSceneTree,
+    })),
+    setSceneTrees: (trees) => set({ sceneTrees: trees, selectedSceneTree: null }),
+    selectSceneTree: (id) => set({ selectedSceneTree: id }),
+    speciesChanged: () => set((state) => ({ speciesRevision: state.speciesRevision + 1 })),
+    solidsBuilt: () => set((state) => ({ solidRevision: state.solidRevision + 1 })),
+    setCrownProfileEditor: (open) => set({ crownProfileEditor: open }),
+    setReferenceImage: (image) => set({ referenceImage: image }),
     generate: () => set((state) => ({ triggerGeneration: state.triggerGeneration + 1 })),
+    randomizeSeed: () => set({ seed: Math.floor(Math.random() * MAX_SEED) }),
 }));